@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { AIAgent } from './AIAgent.js';
+import { AgentHooks } from './AgentHooks.js';
+import { SummarizeStrategy } from '../context/CompactionStrategy.js';
+import { ProviderError } from '../providers/ModelProvider.js';
+import { Scripted, ScriptedProvider } from '../providers/ScriptedProvider.js';
+import { MessageContent } from '../types/Message.js';
+
+describe('AIAgent', () => {
+  it('retries a compaction summary and runs it through the completion hooks', async () => {
+    const provider = new ScriptedProvider([
+      () => {
+        throw new ProviderError('Rate limited', 429, 0);
+      },
+      Scripted.text('- Earlier: nothing of note'),
+      Scripted.text('Done')
+    ]);
+    const hookedPrompts: string[] = [];
+    const hooks: AgentHooks = {
+      beforeCompletion: ({ messages }) => {
+        hookedPrompts.push(MessageContent.text(messages[0].content).slice(0, 40));
+      }
+    };
+    const agent = new AIAgent({
+      provider,
+      systemPrompt: 'You are a test agent.',
+      tools: [],
+      hooks: [hooks],
+      retry: { initialDelayMs: 0 },
+      context: { maxTokens: 200, keepRecentMessages: 1, strategies: [new SummarizeStrategy()] },
+      initialMessages: [
+        { role: 'system', content: 'You are a test agent.' },
+        { role: 'user', content: 'First task' },
+        { role: 'assistant', content: 'x'.repeat(2000) }
+      ]
+    });
+    const deltas: string[] = [];
+    agent.on((event) => {
+      if (event.type === 'text_delta') {
+        deltas.push(event.delta);
+      }
+    });
+
+    const answer = await agent.run('Next task');
+
+    expect(answer).toBe('Done');
+    expect(provider.remaining).toBe(0);
+    expect(hookedPrompts).toHaveLength(2);
+    expect(hookedPrompts[0]).toContain('compress the history');
+    // The summary is not streamed as the agent's output
+    expect(deltas).toEqual(['Done']);
+    expect(MessageContent.text(provider.requests[2].messages[2].content)).toContain('Summary of');
+  });
+});
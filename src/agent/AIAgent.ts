@@ -1,191 +1,1166 @@
 import OpenAI from 'openai';
-import { Tool } from '../core/Tool.js';
+import { ZodType, ZodTypeDef } from 'zod';
+import { Span, SpanStatusCode } from '@opentelemetry/api';
+import { Tool, ToolMetadata } from '../core/Tool.js';
+import { ToolResult } from '../core/ToolResult.js';
+import { Message, MessageContent, ContentPart, ToolCall } from '../types/Message.js';
+import { ModelProvider, CompletionRequest, CompletionResponse } from '../providers/ModelProvider.js';
+import { AgentEvent, AgentEventListener, StopReason } from './AgentEvents.js';
+import { ContextManager, ContextConfig } from '../context/ContextManager.js';
+import { TokenCounter } from '../context/TokenCounter.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { UsageTracker } from '../usage/UsageTracker.js';
+import { RetryPolicy, DEFAULT_RETRY_POLICY, Retry } from './RetryPolicy.js';
+import { AgentHooks, ToolCallHookContext } from './AgentHooks.js';
+import { SubmitResultTool } from './StructuredOutput.js';
+import { LoopDetector, LoopDetectionConfig } from './LoopDetector.js';
+import { ToolSelector, ToolSelectionConfig } from './ToolSelector.js';
+import { Verifier, VerificationConfig, VerificationReport } from './Verifier.js';
+import { ToolPolicyConfig, ToolPolicyEnforcer } from './ToolPolicy.js';
+import { Tracing } from '../telemetry/Tracing.js';
+import { Result } from '../types/Result.js';
+import { CassetteMismatchError } from '../cassette/Cassette.js';
+import { Telemetry } from '../telemetry/Telemetry.js';
 
-/**
- * Message in the conversation
- */
-export interface Message {
-  role: 'system' | 'user' | 'assistant' | 'tool';
-  content: string;
-  name?: string;
-  tool_calls?: OpenAI.Chat.Completions.ChatCompletionMessageToolCall[];
-  tool_call_id?: string;
-}
+export type { Message, ContentPart, ToolCall } from '../types/Message.js';
+export { MessageContent } from '../types/Message.js';
+export { ToolResult } from '../core/ToolResult.js';
+export type { ToolResultStatus, ToolErrorCode, ToolError } from '../core/ToolResult.js';
+export type { TokenUsage } from '../providers/ModelProvider.js';
+export type { AgentEvent, AgentEventListener, StopReason } from './AgentEvents.js';
 
 /**
  * AI Agent configuration
  */
 export interface AIAgentConfig {
-  apiKey: string;
+  provider: ModelProvider;
   model?: string;
   systemPrompt: string;
   tools: Tool[];
   maxIterations?: number;
   verbose?: boolean;
+  /** Restore a previous conversation (including its system prompt) instead of starting fresh */
+  initialMessages?: Message[];
+  /** Token accounting and compaction; without it the history grows unbounded */
+  context?: ContextConfig;
+  /** Parallel execution of read-only tool calls */
+  toolConcurrency?: ToolConcurrencyConfig;
+  /** Shared usage tracker; its limits stop the run with BudgetExceededError */
+  usage?: UsageTracker;
+  /** Label for this agent in usage reports (default: 'main') */
+  name?: string;
+  /** Retry/backoff for transient completion failures (429, 5xx, network) */
+  retry?: Partial<RetryPolicy>;
+  /** Models tried in order when the primary model keeps failing */
+  fallbackModels?: string[];
+  /** Lifecycle hooks (redaction, policies, metrics, ...) run in order */
+  hooks?: AgentHooks[];
+  /** Detection of repeated tool calls and errors; false disables it */
+  loopDetection?: LoopDetectionConfig | false;
+  /**
+   * When the run hits maxIterations or is stopped as stuck, ask the model for a
+   * summary of progress and remaining work (no tools) instead of throwing (default: true)
+   */
+  wrapUp?: boolean;
+  /** Expose only core tools plus the most relevant others per turn, with a search_tools meta-tool */
+  toolSelection?: ToolSelectionConfig;
+  /** Commands (build, tests, ...) that must pass before an answer is accepted */
+  verification?: VerificationConfig;
+  /** Timeouts, call limits, output caps and concurrency per tool; violations are reported to the model */
+  toolPolicy?: ToolPolicyConfig;
+}
+
+/**
+ * Controls which tool calls may run concurrently
+ */
+export interface ToolConcurrencyConfig {
+  /** Max read-only tool calls in flight at once (default: 4, 1 disables concurrency) */
+  maxConcurrent?: number;
+  /** Tools that may run concurrently (default: tools whose metadata marks them read-only) */
+  readOnlyTools?: string[];
+}
+
+/**
+ * Per-run options
+ */
+export interface RunOptions {
+  /** Aborts the model request, running tools and spawned processes */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for a run that returns a validated object instead of free text
+ */
+export interface StructuredRunOptions<T> extends RunOptions {
+  /** The model submits its answer through a submit_result tool validated against this schema */
+  schema: ZodType<T, ZodTypeDef, unknown>;
+}
+
+/**
+ * Thrown when a run is cancelled through its AbortSignal
+ * The conversation up to the interruption is kept and can be resumed
+ */
+export class AgentAbortedError extends Error {
+  constructor(public iterations: number) {
+    super(`Agent run aborted after ${iterations} iteration(s)`);
+    this.name = 'AgentAbortedError';
+  }
 }
 
+/**
+ * Result of one iteration of the agent loop
+ */
+type IterationOutcome =
+  | { type: 'done'; output: string }
+  | { type: 'continue' }
+  | { type: 'stuck'; reason: string }
+  | { type: 'unverified'; reason: string };
+
+/**
+ * Sent (without tools) when a run has to stop before the task is finished
+ */
+const WRAP_UP_PROMPT = `You have to stop working on this task now and cannot use any more tools.
+Reply with a concise summary for the user:
+1. What has been done so far (files changed, commands run, findings)
+2. The current state (what works, what is broken or unverified)
+3. What remains to be done, as concrete next steps`;
+
 /**
  * Main AI Agent orchestrator
- * Manages conversation, tool execution, and OpenAI integration
+ * Manages conversation, tool execution, and model provider integration
  */
 export class AIAgent {
-  private openai: OpenAI;
-  private config: Required<AIAgentConfig>;
+  private config: Required<Omit<AIAgentConfig, 'context' | 'toolConcurrency' | 'usage' | 'retry' | 'loopDetection' | 'toolSelection' | 'verification' | 'toolPolicy'>>;
   private messages: Message[] = [];
   private toolMap: Map<string, Tool>;
+  private listeners = new Set<AgentEventListener>();
+  private contextManager: ContextManager | null;
+  private toolConcurrency: Required<ToolConcurrencyConfig>;
+  private usageTracker: UsageTracker | null;
+  private retryPolicy: RetryPolicy;
+  private loopDetector: LoopDetector | null;
+  private toolSelector: ToolSelector | null;
+  private verifier: Verifier | null;
+  private toolPolicy: ToolPolicyEnforcer;
+  private signal: AbortSignal | undefined;
+  private submitTool: SubmitResultTool<unknown> | null = null;
+  private iterations = 0;
 
   constructor(config: AIAgentConfig) {
+    const { context, toolConcurrency, usage, retry, loopDetection, toolSelection, verification, toolPolicy, ...rest } = config;
+
     this.config = {
-      ...config,
+      ...rest,
       model: config.model || 'gpt-4o',
       maxIterations: config.maxIterations || 20,
-      verbose: config.verbose || false
+      verbose: config.verbose || false,
+      initialMessages: config.initialMessages || [],
+      name: config.name || 'main',
+      fallbackModels: config.fallbackModels || [],
+      hooks: config.hooks || [],
+      wrapUp: config.wrapUp ?? true
     };
 
-    this.openai = new OpenAI({
-      apiKey: this.config.apiKey
-    });
+    this.contextManager = context ? new ContextManager(context) : null;
+    this.usageTracker = usage ?? null;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...retry };
+    this.loopDetector = loopDetection === false ? null : new LoopDetector(loopDetection);
+    this.verifier = verification && verification.commands.length > 0 ? new Verifier(verification) : null;
+    this.toolPolicy = new ToolPolicyEnforcer(toolPolicy);
 
-    // Build tool map
+    // Build tool map; a duplicate name would silently shadow a tool
     this.toolMap = new Map();
     for (const tool of this.config.tools) {
+      if (this.toolMap.has(tool.name)) {
+        throw new Error(`Duplicate tool name '${tool.name}'; register tools through a ToolRegistry to resolve collisions`);
+      }
       this.toolMap.set(tool.name, tool);
     }
 
-    // Initialize with system prompt
-    this.messages.push({
-      role: 'system',
-      content: this.config.systemPrompt
+    this.toolConcurrency = {
+      maxConcurrent: toolConcurrency?.maxConcurrent ?? 4,
+      readOnlyTools: toolConcurrency?.readOnlyTools ??
+        this.config.tools.filter(ToolMetadata.isReadOnly).map((tool) => tool.name)
+    };
+
+    // Large tool sets are narrowed down per turn; the model can search for the rest
+    this.toolSelector = toolSelection ? new ToolSelector(this.config.tools, toolSelection) : null;
+    if (this.toolSelector?.active) {
+      this.toolMap.set(this.toolSelector.searchTool.name, this.toolSelector.searchTool);
+    }
+
+    // Initialize with restored history or system prompt
+    if (this.config.initialMessages.length > 0) {
+      this.messages.push(...this.config.initialMessages);
+    } else {
+      this.messages.push({
+        role: 'system',
+        content: this.config.systemPrompt
+      });
+    }
+  }
+
+  /**
+   * Subscribe to agent events
+   * Returns a function that removes the listener
+   */
+  on(listener: AgentEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Run the agent and stream its events as they happen
+   * The generator's return value is the final answer, errors are rethrown
+   */
+  stream(userInput: MessageContent, options: RunOptions = {}): AsyncGenerator<AgentEvent, string> {
+    return this.streamOf(() => this.run(userInput, options));
+  }
+
+  private async *streamOf(start: () => Promise<string>): AsyncGenerator<AgentEvent, string> {
+    const queue: AgentEvent[] = [];
+    let wake: (() => void) | null = null;
+    let settled = false;
+
+    const unsubscribe = this.on((event) => {
+      queue.push(event);
+      wake?.();
+    });
+
+    const running = start().finally(() => {
+      settled = true;
+      wake?.();
     });
+    // Surface the rejection through `await running` below, not as unhandled
+    running.catch(() => {});
+
+    try {
+      while (true) {
+        while (queue.length > 0) {
+          yield queue.shift()!;
+        }
+        if (settled) {
+          break;
+        }
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+        wake = null;
+      }
+    } finally {
+      unsubscribe();
+    }
+
+    return running;
   }
 
   /**
    * Run the agent with a user task
+   * With a schema, the result is the validated object the model submitted
+   * The input may include image parts for vision-capable models
    */
-  async run(userInput: string): Promise<string> {
-    // Add user message
-    this.messages.push({
+  async run(userInput: MessageContent, options?: RunOptions): Promise<string>;
+  async run<T>(userInput: MessageContent, options: StructuredRunOptions<T>): Promise<T>;
+  async run<T>(userInput: MessageContent, options: RunOptions | StructuredRunOptions<T> = {}): Promise<string | T> {
+    // An aborted or crashed turn may have left tool calls unanswered
+    this.completeInterruptedToolCalls();
+
+    if (!('schema' in options)) {
+      // Add user message
+      this.addMessage({
+        role: 'user',
+        content: userInput
+      });
+
+      return this.loop(options);
+    }
+
+    const submitTool = new SubmitResultTool(options.schema);
+    this.addMessage({
       role: 'user',
-      content: userInput
+      content: MessageContent.append(userInput, submitTool.instructions)
     });
 
-    let iterations = 0;
+    this.submitTool = submitTool;
+    this.toolMap.set(submitTool.name, submitTool);
+
+    try {
+      await this.loop(options);
+      return submitTool.accepted!.value;
+    } finally {
+      this.toolMap.delete(submitTool.name);
+      this.submitTool = null;
+    }
+  }
+
+  /**
+   * Continue a restored conversation without adding a new user message
+   * Used to pick up a session that crashed or ran out of iterations
+   */
+  async resume(options: RunOptions = {}): Promise<string> {
+    const last = this.messages[this.messages.length - 1];
+
+    if (!last || last.role === 'system') {
+      throw new Error('Nothing to resume: the conversation has no user task');
+    }
+
+    if (last.role === 'assistant' && (!last.tool_calls || last.tool_calls.length === 0)) {
+      throw new Error('Nothing to resume: the conversation already finished, provide a follow-up task');
+    }
+
+    this.completeInterruptedToolCalls();
+
+    return this.loop(options);
+  }
+
+  /**
+   * Answer tool calls left without a result (e.g. the process died mid-execution)
+   * The API rejects histories with unanswered tool calls
+   */
+  private completeInterruptedToolCalls(): void {
+    const assistantIndex = this.messages.map((m) => m.role).lastIndexOf('assistant');
+    const assistant = this.messages[assistantIndex];
+    if (!assistant?.tool_calls) {
+      return;
+    }
+
+    const answered = new Set(
+      this.messages.slice(assistantIndex + 1).map((m) => m.tool_call_id)
+    );
+
+    for (const toolCall of assistant.tool_calls) {
+      if (!answered.has(toolCall.id)) {
+        this.addMessage({
+          role: 'tool',
+          tool_call_id: toolCall.id,
+          content: ToolResult.format(
+            ToolResult.error('cancelled', `Tool call '${toolCall.function.name}' was interrupted before completion`)
+          )
+        });
+      }
+    }
+  }
+
+  /**
+   * Main completion/tool-execution loop
+   */
+  private async loop(options: RunOptions): Promise<string> {
+    this.signal = options.signal;
+    this.iterations = 0;
+    this.loopDetector?.reset();
+    this.verifier?.reset();
+    this.toolPolicy.reset();
 
-    while (iterations < this.config.maxIterations) {
-      iterations++;
+    const attributes = { 'gen_ai.agent.name': this.config.name, 'gen_ai.request.model': this.config.model };
 
+    return Tracing.withSpan(`agent.run ${this.config.name}`, attributes, async (span) => {
+      try {
+        const output = await this.iterate();
+        await this.runFinishHooks({ output });
+        return output;
+      } catch (error) {
+        await this.runFinishHooks({ error });
+        throw error;
+      } finally {
+        span.setAttribute('agent.iterations', this.iterations);
+        this.signal = undefined;
+      }
+    });
+  }
+
+  private async iterate(): Promise<string> {
+    while (this.iterations < this.config.maxIterations) {
+      this.throwIfAborted(this.iterations);
+      const iteration = ++this.iterations;
+
+      const outcome = await Tracing.withSpan(
+        'agent.iteration',
+        { 'gen_ai.agent.name': this.config.name, 'agent.iteration': iteration },
+        (span) => this.runIteration(iteration, span)
+      );
+
+      if (outcome.type === 'done') {
+        return outcome.output;
+      }
+
+      if (outcome.type === 'stuck') {
+        return this.wrapUp('loop_detected', `Agent stopped: ${outcome.reason}`);
+      }
+
+      if (outcome.type === 'unverified') {
+        return this.wrapUp('verification_failed', `Agent stopped: ${outcome.reason}`);
+      }
+    }
+
+    return this.wrapUp('max_iterations', `Max iterations (${this.config.maxIterations}) reached`);
+  }
+
+  /**
+   * End a run that could not finish with one last completion that summarizes
+   * progress and remaining work; tools are offered but may not be called
+   * Structured runs (or wrapUp: false) throw instead, as they cannot return a summary
+   */
+  private async wrapUp(stopReason: Exclude<StopReason, 'completed'>, message: string): Promise<string> {
+    if (!this.config.wrapUp || this.submitTool) {
+      throw new Error(message);
+    }
+
+    this.throwIfAborted(this.iterations);
+    const iteration = ++this.iterations;
+
+    if (this.config.verbose) {
+      console.log(`\n[Agent] ${message} - asking for a progress summary`);
+    }
+
+    const attributes = { 'gen_ai.agent.name': this.config.name, 'agent.iteration': iteration, 'agent.stop_reason': stopReason };
+
+    return Tracing.withSpan('agent.wrap_up', attributes, async () => {
+      this.emit({ type: 'iteration_start', iteration, maxIterations: this.config.maxIterations });
+      this.addMessage({ role: 'user', content: `${message}.\n\n${WRAP_UP_PROMPT}` });
+
+      const { message: summary } = await this.getCompletion(iteration, 'none');
+
+      // Drop tool calls a non-compliant model made anyway, nothing would answer them
+      const output = summary.content || '';
+      this.addMessage({ role: 'assistant', content: output });
+
+      this.emit({ type: 'iteration_end', iteration, toolCalls: 0 });
+      this.emit({ type: 'done', iterations: iteration, output, stopReason });
+      return output;
+    });
+  }
+
+  /**
+   * One completion plus the tool calls it requested
+   */
+  private async runIteration(iteration: number, span: Span): Promise<IterationOutcome> {
+    if (this.config.verbose) {
+      console.log(`\n[Agent] Iteration ${iteration}/${this.config.maxIterations}`);
+    }
+
+    this.emit({ type: 'iteration_start', iteration, maxIterations: this.config.maxIterations });
+
+    // Get completion from the model provider
+    const { message } = await this.getCompletion(iteration);
+
+    // Add assistant message
+    this.addMessage({
+      role: 'assistant',
+      content: message.content || '',
+      tool_calls: message.tool_calls
+    });
+
+    const toolCalls = message.tool_calls?.length ?? 0;
+    span.setAttribute('agent.tool_calls', toolCalls);
+
+    // Check if agent wants to use tools
+    if (message.tool_calls && toolCalls > 0) {
+      const results = await this.executeToolCalls(message.tool_calls, iteration);
+      this.throwIfAborted(iteration);
+      const stuck = this.checkForLoop(iteration, message.tool_calls, results);
+      this.emit({ type: 'iteration_end', iteration, toolCalls });
+
+      // Structured runs end as soon as a valid result was submitted
+      const submitted = this.submitTool?.accepted;
+      if (submitted) {
+        if (this.config.verbose) {
+          console.log('[Agent] Structured result accepted');
+        }
+
+        const output = JSON.stringify(submitted.value);
+        this.emit({ type: 'done', iterations: iteration, output, stopReason: 'completed' });
+        return { type: 'done', output };
+      }
+
+      return stuck ? { type: 'stuck', reason: stuck } : { type: 'continue' };
+    }
+
+    this.emit({ type: 'iteration_end', iteration, toolCalls: 0 });
+
+    // A structured run cannot end with plain text
+    if (this.submitTool) {
       if (this.config.verbose) {
-        console.log(`\n[Agent] Iteration ${iterations}/${this.config.maxIterations}`);
+        console.log('[Agent] No result submitted, reminding the model');
       }
 
-      // Get completion from OpenAI
-      const completion = await this.getCompletion();
+      this.addMessage({ role: 'user', content: this.submitTool.reminder });
+      return { type: 'continue' };
+    }
+
+    // The model considers the task done; check its work before accepting the answer
+    if (this.verifier) {
+      const report = await this.runVerification(iteration);
+
+      if (!report.passed) {
+        const failed = report.results.find((result) => !result.passed)!;
+        if (!this.verifier.canRetry) {
+          return { type: 'unverified', reason: `verification failed after ${report.attempt} attempt(s): ${failed.command}` };
+        }
 
-      const message = completion.choices[0]?.message;
-      if (!message) {
-        throw new Error('No message in completion');
+        this.addMessage({ role: 'user', content: this.verifier.feedback(report) });
+        return { type: 'continue' };
       }
+    }
 
-      // Add assistant message
-      this.messages.push({
-        role: 'assistant',
-        content: message.content || '',
-        tool_calls: message.tool_calls
+    // No tool calls - agent is done
+    if (this.config.verbose) {
+      console.log('[Agent] Task completed');
+    }
+
+    const output = message.content || '';
+    this.emit({ type: 'done', iterations: iteration, output, stopReason: 'completed' });
+    return { type: 'done', output };
+  }
+
+  /**
+   * Run the verification commands inside their own span
+   */
+  private runVerification(iteration: number): Promise<VerificationReport> {
+    const attributes = { 'gen_ai.agent.name': this.config.name, 'agent.iteration': iteration };
+
+    return Tracing.withSpan('agent.verification', attributes, async (span) => {
+      const report = await this.verifier!.verify(this.signal, (command) => {
+        if (this.config.verbose) {
+          console.log(`[Agent] Verifying: ${command}`);
+        }
       });
+      this.throwIfAborted(iteration);
+
+      span.setAttributes({ 'agent.verification.passed': report.passed, 'agent.verification.attempt': report.attempt });
+      if (this.config.verbose) {
+        console.log(`[Agent] Verification ${Verifier.summarize(report)}`);
+      }
+      this.emit({ type: 'verification', iteration, report });
+
+      return report;
+    });
+  }
 
-      // Check if agent wants to use tools
-      if (message.tool_calls && message.tool_calls.length > 0) {
-        await this.executeToolCalls(message.tool_calls);
+  /**
+   * Feed finished tool calls to the loop detector
+   * A detected loop first adds a corrective message; returns the reason once the run should stop
+   */
+  private checkForLoop(iteration: number, toolCalls: ToolCall[], results: ToolResult[]): string | null {
+    if (!this.loopDetector) {
+      return null;
+    }
+
+    for (const [index, toolCall] of toolCalls.entries()) {
+      const tool = this.toolMap.get(toolCall.function.name);
+      const verdict = this.loopDetector.record(toolCall, {
+        result: ToolResult.format(results[index]),
+        isError: ToolResult.isError(results[index]),
+        readOnly: !tool || ToolMetadata.isReadOnly(tool)
+      });
+
+      if (verdict.type === 'ok') {
         continue;
       }
 
-      // No tool calls - agent is done
       if (this.config.verbose) {
-        console.log('[Agent] Task completed');
+        console.log(`[Agent] Loop detected (${verdict.reason}), ${verdict.type === 'nudge' ? 'nudging the model' : 'stopping'}`);
+      }
+      this.emit({ type: 'loop_detected', iteration, reason: verdict.reason, action: verdict.type });
+
+      if (verdict.type === 'stop') {
+        return verdict.reason;
       }
 
-      return message.content || '';
+      this.addMessage({ role: 'user', content: verdict.message });
+      return null;
     }
 
-    throw new Error(`Max iterations (${this.config.maxIterations}) reached`);
+    return null;
   }
 
   /**
-   * Get completion from OpenAI
+   * Notify hooks that the run ended; hook failures are logged, not rethrown
    */
-  private async getCompletion(): Promise<OpenAI.Chat.Completions.ChatCompletion> {
-    const tools = Array.from(this.toolMap.values()).map((tool) =>
-      this.toolToOpenAIFunction(tool)
-    );
+  private async runFinishHooks(outcome: { output?: string; error?: unknown }): Promise<void> {
+    for (const hook of this.config.hooks) {
+      try {
+        await hook.onFinish?.({
+          agentName: this.config.name,
+          iterations: this.iterations,
+          messages: this.getMessages(),
+          ...outcome
+        });
+      } catch (error) {
+        if (this.config.verbose) {
+          console.error(`[Agent] onFinish hook '${hook.name ?? 'anonymous'}' failed:`, error);
+        }
+      }
+    }
+  }
+
+  private throwIfAborted(iterations: number): void {
+    if (this.signal?.aborted) {
+      if (this.config.verbose) {
+        console.log('[Agent] Run aborted');
+      }
+      throw new AgentAbortedError(iterations);
+    }
+  }
+
+  /**
+   * Get completion from the model provider, streaming content deltas as events
+   */
+  private async getCompletion(iteration: number, toolChoice?: 'none'): Promise<CompletionResponse> {
+    const available = Array.from(this.toolMap.values());
+    const exposed = this.toolSelector ? this.toolSelector.select(available, this.messages) : available;
+    const tools = exposed.map((tool) => this.toolToOpenAIFunction(tool));
+
+    const toolTokens = TokenCounter.estimateText(JSON.stringify(tools));
+    await this.compactContext(iteration, toolTokens);
 
     if (this.config.verbose) {
-      console.log('[Agent] Calling OpenAI with', tools.length, 'tools');
+      const count = tools.length === available.length ? `${tools.length}` : `${tools.length}/${available.length}`;
+      console.log(`[Agent] Calling ${this.config.provider.name} (${this.config.model}) with ${count} tools`);
     }
 
-    const completion = await this.openai.chat.completions.create({
-      model: this.config.model,
-      messages: this.messages as OpenAI.Chat.Completions.ChatCompletionMessageParam[],
-      tools: tools.length > 0 ? tools : undefined,
-      tool_choice: 'auto'
-    });
+    const completion = await this.complete(iteration, { messages: this.messages, tools, toolChoice }, true);
+
+    const usage = completion.usage;
+    if (usage) {
+      this.contextManager?.calibrate(this.messages, toolTokens, usage.promptTokens);
+    }
 
     if (this.config.verbose) {
-      const usage = completion.usage;
-      console.log(`[Agent] Tokens: ${usage?.prompt_tokens} prompt, ${usage?.completion_tokens} completion, ${usage?.total_tokens} total`);
+      console.log(`[Agent] Tokens: ${usage?.promptTokens} prompt, ${usage?.completionTokens} completion, ${usage?.totalTokens} total`);
+    }
+
+    return completion;
+  }
+
+  /**
+   * Make a completion with hooks, retries, fallback models and usage accounting
+   * Turns stream their text as events; compaction summaries are not part of the output.
+   */
+  private async complete(
+    iteration: number,
+    request: Pick<CompletionRequest, 'messages' | 'tools' | 'toolChoice'> & { model?: string },
+    stream: boolean
+  ): Promise<CompletionResponse> {
+    // Stop before spending more once a budget is exhausted
+    this.usageTracker?.checkLimits();
+
+    const requestedModel = request.model ?? this.config.model;
+    const messages = await this.runBeforeCompletionHooks(iteration, requestedModel, request.messages);
+    const { completion, model } = await this.completeWithRetry(
+      [requestedModel, ...this.config.fallbackModels.filter((fallback) => fallback !== requestedModel)],
+      { ...request, messages },
+      iteration,
+      stream
+    );
+
+    for (const hook of this.config.hooks) {
+      await hook.afterCompletion?.({
+        agentName: this.config.name,
+        iteration,
+        model,
+        messages,
+        message: completion.message,
+        usage: completion.usage
+      });
+    }
+
+    if (completion.usage) {
+      this.usageTracker?.record(this.config.name, model, completion.usage);
+      this.emit({ type: 'usage', iteration, usage: completion.usage });
     }
 
     return completion;
   }
 
+  /**
+   * Let hooks inspect or replace the messages sent for this completion
+   */
+  private async runBeforeCompletionHooks(iteration: number, model: string, original: Message[]): Promise<Message[]> {
+    let messages = original;
+
+    for (const hook of this.config.hooks) {
+      const replaced = await hook.beforeCompletion?.({
+        agentName: this.config.name,
+        iteration,
+        model,
+        messages: [...messages]
+      });
+      if (replaced) {
+        messages = replaced;
+      }
+    }
+
+    return messages;
+  }
+
+  /**
+   * Call the provider, retrying transient failures with backoff and
+   * falling back to the next configured model when one keeps failing
+   */
+  private async completeWithRetry(
+    models: string[],
+    request: Pick<CompletionRequest, 'messages' | 'tools' | 'toolChoice'>,
+    iteration: number,
+    stream: boolean
+  ): Promise<{ completion: CompletionResponse; model: string }> {
+    let lastError: unknown;
+
+    for (const [modelIndex, model] of models.entries()) {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const completion = await this.completeOnce(model, request, iteration, attempt, stream);
+          return { completion, model };
+        } catch (error) {
+          lastError = error;
+          this.throwIfAborted(iteration);
+
+          if (attempt >= this.retryPolicy.maxRetries || !Retry.isRetryable(error, this.retryPolicy)) {
+            break;
+          }
+
+          const delayMs = Retry.delayFor(attempt, error, this.retryPolicy);
+          const reason = error instanceof Error ? error.message : String(error);
+
+          if (this.config.verbose) {
+            console.log(`[Agent] ${model} failed (${reason}), retry ${attempt + 1}/${this.retryPolicy.maxRetries} in ${delayMs}ms`);
+          }
+          this.emit({ type: 'retry', iteration, model, attempt: attempt + 1, delayMs, error: reason });
+
+          await Retry.sleep(delayMs, this.signal);
+          this.throwIfAborted(iteration);
+        }
+      }
+
+      const nextModel = models[modelIndex + 1];
+      if (!nextModel || !Retry.shouldFallback(lastError, this.retryPolicy)) {
+        break;
+      }
+
+      const reason = lastError instanceof Error ? lastError.message : String(lastError);
+      if (this.config.verbose) {
+        console.log(`[Agent] ${model} unavailable (${reason}), falling back to ${nextModel}`);
+      }
+      this.emit({ type: 'fallback', iteration, fromModel: model, toModel: nextModel, error: reason });
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * A single provider call, traced with GenAI semantic convention attributes
+   */
+  private completeOnce(
+    model: string,
+    request: Pick<CompletionRequest, 'messages' | 'tools' | 'toolChoice'>,
+    iteration: number,
+    attempt: number,
+    stream: boolean
+  ): Promise<CompletionResponse> {
+    const attributes = {
+      'gen_ai.operation.name': 'chat',
+      'gen_ai.system': this.config.provider.name,
+      'gen_ai.request.model': model,
+      'gen_ai.agent.name': this.config.name,
+      'agent.iteration': iteration,
+      'agent.attempt': attempt
+    };
+
+    return Tracing.withSpan(`chat ${model}`, attributes, async (span) => {
+      const completion = await this.config.provider.complete(
+        { ...request, model, signal: this.signal },
+        stream
+          ? {
+              onContentDelta: (delta) => {
+                this.emit({ type: 'text_delta', iteration, delta });
+              }
+            }
+          : undefined
+      );
+
+      if (completion.usage) {
+        span.setAttributes({
+          'gen_ai.usage.input_tokens': completion.usage.promptTokens,
+          'gen_ai.usage.output_tokens': completion.usage.completionTokens
+        });
+      }
+      if (completion.finishReason) {
+        span.setAttribute('gen_ai.response.finish_reasons', [completion.finishReason]);
+      }
+
+      return completion;
+    });
+  }
+
+  /**
+   * Shrink the conversation when it approaches the context window
+   */
+  private async compactContext(iteration: number, toolTokens: number): Promise<void> {
+    if (!this.contextManager) {
+      return;
+    }
+
+    const result = await this.contextManager.fit(this.messages, {
+      // Summaries go through the same path as turns, so they are retried, hooked and traced
+      complete: (request) => this.complete(iteration, request, false),
+      toolTokens
+    });
+
+    if (!result.compacted) {
+      return;
+    }
+
+    this.messages = result.messages;
+
+    if (this.config.verbose) {
+      console.log(`[Agent] Compacted context (${result.strategies.join(', ')}): ~${result.beforeTokens} -> ~${result.afterTokens} tokens`);
+    }
+
+    this.emit({
+      type: 'compaction',
+      iteration,
+      strategies: result.strategies,
+      beforeTokens: result.beforeTokens,
+      afterTokens: result.afterTokens
+    });
+  }
+
   /**
    * Execute tool calls
+   * Consecutive read-only calls run concurrently, everything else runs one at a time
+   * Results are appended in the order the model requested them, followed by one
+   * user message with any content the tools attached (images cannot be tool output)
    */
   private async executeToolCalls(
-    toolCalls: OpenAI.Chat.Completions.ChatCompletionMessageToolCall[]
-  ): Promise<void> {
-    for (const toolCall of toolCalls) {
-      const tool = this.toolMap.get(toolCall.function.name);
+    toolCalls: ToolCall[],
+    iteration: number
+  ): Promise<ToolResult[]> {
+    const allResults: ToolResult[] = [];
+    const attachments = new Map<string, ContentPart[]>();
+
+    for (const batch of this.batchToolCalls(toolCalls)) {
+      // Only some tools watch the signal; calls after an abort must not run at all
+      const results = this.signal?.aborted
+        ? batch.map((toolCall) => ToolResult.error('cancelled', `Tool call '${toolCall.function.name}' was not run: the run was aborted`))
+        : await mapWithConcurrency(
+          batch,
+          this.toolConcurrency.maxConcurrent,
+          (toolCall) => this.executeToolCall(toolCall, iteration, (parts) => {
+            attachments.set(toolCall.id, [...(attachments.get(toolCall.id) ?? []), ...parts]);
+          })
+        );
 
-      if (!tool) {
-        this.messages.push({
+      batch.forEach((toolCall, index) => {
+        this.addMessage({
           role: 'tool',
           tool_call_id: toolCall.id,
-          content: `ERROR: Tool '${toolCall.function.name}' not found`
+          content: ToolResult.format(results[index])
         });
+      });
+      allResults.push(...results);
+    }
+
+    const attached = toolCalls.flatMap((toolCall) => attachments.get(toolCall.id) ?? []);
+    if (attached.length > 0) {
+      if (this.config.verbose) {
+        console.log(`[Agent] Attaching ${MessageContent.images(attached).length} image(s) from tool results`);
+      }
+      this.addMessage({ role: 'user', content: attached });
+    }
+
+    return allResults;
+  }
+
+  /**
+   * Group tool calls into batches that are safe to run concurrently
+   */
+  private batchToolCalls(toolCalls: ToolCall[]): ToolCall[][] {
+    const batches: ToolCall[][] = [];
+    let readOnlyBatch: ToolCall[] = [];
+
+    for (const toolCall of toolCalls) {
+      if (this.toolConcurrency.readOnlyTools.includes(toolCall.function.name)) {
+        readOnlyBatch.push(toolCall);
         continue;
       }
 
+      if (readOnlyBatch.length > 0) {
+        batches.push(readOnlyBatch);
+        readOnlyBatch = [];
+      }
+      batches.push([toolCall]);
+    }
+
+    if (readOnlyBatch.length > 0) {
+      batches.push(readOnlyBatch);
+    }
+
+    return batches;
+  }
+
+  /**
+   * Execute a single tool call inside its own span
+   * Sub-agents started by the tool inherit the span as their parent
+   */
+  private executeToolCall(
+    toolCall: ToolCall,
+    iteration: number,
+    attach: (parts: ContentPart[]) => void
+  ): Promise<ToolResult> {
+    const attributes = {
+      'gen_ai.operation.name': 'execute_tool',
+      'gen_ai.tool.name': toolCall.function.name,
+      'gen_ai.tool.call.id': toolCall.id,
+      'gen_ai.agent.name': this.config.name,
+      'agent.iteration': iteration
+    };
+
+    return Tracing.withSpan(`execute_tool ${toolCall.function.name}`, attributes, async (span) => {
+      const result = await this.runToolCall(toolCall, iteration, attach);
+      const isError = ToolResult.isError(result);
+
+      span.setAttributes({
+        'agent.tool.status': result.status,
+        'agent.tool.is_error': isError,
+        'agent.tool.result_length': result.content.length
+      });
+      if (result.error) {
+        span.setAttribute('agent.tool.error_code', result.error.code);
+      }
+      if (isError) {
+        span.setStatus({ code: SpanStatusCode.ERROR, message: result.content.substring(0, 200) });
+      }
+
+      return result;
+    });
+  }
+
+  /**
+   * Execute a single tool call and return its outcome for the tool message
+   */
+  private async runToolCall(
+    toolCall: ToolCall,
+    iteration: number,
+    attach: (parts: ContentPart[]) => void
+  ): Promise<ToolResult> {
+    const tool = this.toolMap.get(toolCall.function.name);
+    const startedAt = Date.now();
+
+    this.emit({
+      type: 'tool_call_start',
+      iteration,
+      toolCallId: toolCall.id,
+      name: toolCall.function.name,
+      arguments: toolCall.function.arguments
+    });
+
+    if (!tool) {
+      const notFound = ToolResult.error('unknown_tool', `Tool '${toolCall.function.name}' not found`);
+      this.emitToolCallEnd(toolCall, iteration, notFound, startedAt);
+      return notFound;
+    }
+
+    if (this.config.verbose) {
+      console.log(`[Agent] Executing tool: ${toolCall.function.name}`);
+      console.log(`[Agent] Arguments:`, toolCall.function.arguments);
+    }
+
+    // Malformed arguments never reach hooks or the tool
+    const args = this.parseToolArguments(tool, toolCall);
+    if (!args.success) {
+      if (this.config.verbose) {
+        console.error(`[Agent] Error:`, ToolResult.format(args.error));
+      }
+      this.emitToolCallEnd(toolCall, iteration, args.error, startedAt);
+      return args.error;
+    }
+
+    const limited = this.toolPolicy.admit(tool.name);
+    if (limited) {
+      this.emitToolCallEnd(toolCall, iteration, limited, startedAt);
+      return limited;
+    }
+
+    let hookContext: ToolCallHookContext | null = null;
+    let result: ToolResult;
+
+    try {
+      hookContext = {
+        agentName: this.config.name,
+        iteration,
+        toolCallId: toolCall.id,
+        name: toolCall.function.name,
+        args: args.value,
+        metadata: ToolMetadata.of(tool)
+      };
+
+      const veto = await this.runBeforeToolCallHooks(hookContext);
+      // Arguments rewritten by a hook must pass the tool's validation too
+      const callArgs: Result<Record<string, unknown>, ToolResult> = !veto && hookContext.args !== args.value && tool.parseArguments
+        ? tool.parseArguments(hookContext.args)
+        : Result.ok(hookContext.args);
+
+      if (veto) {
+        result = veto;
+      } else if (!callArgs.success) {
+        // The model's arguments were valid, so this is the hook's failure, not the model's
+        result = ToolResult.error('hook_failed', `Arguments rewritten by a beforeToolCall hook are invalid. ${callArgs.error.content}`);
+      } else {
+        result = await this.toolPolicy.execute(
+          tool.name,
+          this.signal,
+          (signal) => tool.execute(callArgs.value, { signal, attach, toolCallId: toolCall.id })
+        );
+      }
+
+      if (this.config.verbose) {
+        const text = ToolResult.format(result);
+        const preview = text.length > 200 ? text.substring(0, 200) + '...' : text;
+        console.log(`[Agent] Result:`, preview);
+      }
+    } catch (error) {
+      if (error instanceof CassetteMismatchError) {
+        // Raised by a sub-agent replaying a stale cassette; the replay must fail
+        throw error;
+      }
+      result = ToolResult.error('tool_failed', error instanceof Error ? error.message : String(error));
+
       if (this.config.verbose) {
-        console.log(`[Agent] Executing tool: ${toolCall.function.name}`);
-        console.log(`[Agent] Arguments:`, toolCall.function.arguments);
+        console.error(`[Agent] Error:`, ToolResult.format(result));
       }
+    }
 
-      try {
-        const args = JSON.parse(toolCall.function.arguments);
-        const result = await tool.execute(args);
+    if (hookContext) {
+      result = await this.runAfterToolCallHooks(hookContext, result, Date.now() - startedAt);
+    }
 
+    result = this.toolPolicy.limitOutput(tool.name, result);
+
+    this.emitToolCallEnd(toolCall, iteration, result, startedAt);
+    return result;
+  }
+
+  /**
+   * Parse the JSON arguments of a tool call and let the tool validate them
+   */
+  private parseToolArguments(tool: Tool, toolCall: ToolCall): Result<Record<string, unknown>, ToolResult> {
+    let args: unknown;
+    try {
+      // Some models send an empty string for tools without parameters
+      args = toolCall.function.arguments.trim() === '' ? {} : JSON.parse(toolCall.function.arguments);
+    } catch (error) {
+      return Result.err(ToolResult.error(
+        'invalid_arguments',
+        `Arguments for '${tool.name}' are not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+      ));
+    }
+
+    if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+      return Result.err(ToolResult.error('invalid_arguments', `Arguments for '${tool.name}' must be a JSON object`));
+    }
+
+    const record = args as Record<string, unknown>;
+    return tool.parseArguments ? tool.parseArguments(record) : Result.ok(record);
+  }
+
+  /**
+   * Run beforeToolCall hooks, which may rewrite the arguments in place
+   * Returns the result for the model if a hook vetoed the call
+   */
+  private async runBeforeToolCallHooks(context: ToolCallHookContext): Promise<ToolResult | null> {
+    for (const hook of this.config.hooks) {
+      const decision = await hook.beforeToolCall?.({ ...context });
+      if (!decision) {
+        continue;
+      }
+
+      if (decision.type === 'veto') {
         if (this.config.verbose) {
-          const preview = result.length > 200 ? result.substring(0, 200) + '...' : result;
-          console.log(`[Agent] Result:`, preview);
+          console.log(`[Agent] Tool call ${context.name} vetoed by hook '${hook.name ?? 'anonymous'}': ${decision.reason}`);
         }
+        return ToolResult.rejected(`Tool call blocked by policy${hook.name ? ` '${hook.name}'` : ''}: ${decision.reason}`);
+      }
 
-        this.messages.push({
-          role: 'tool',
-          tool_call_id: toolCall.id,
-          content: result
+      if (decision.args) {
+        context.args = decision.args;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Run afterToolCall hooks; each may rewrite the result
+   * A failing hook turns the result into an error for the model
+   */
+  private async runAfterToolCallHooks(
+    context: ToolCallHookContext,
+    result: ToolResult,
+    durationMs: number
+  ): Promise<ToolResult> {
+    for (const hook of this.config.hooks) {
+      try {
+        const rewritten = await hook.afterToolCall?.({
+          ...context,
+          result: ToolResult.format(result),
+          isError: ToolResult.isError(result),
+          toolResult: result,
+          durationMs
         });
+        if (rewritten !== undefined) {
+          result = ToolResult.from(rewritten);
+        }
       } catch (error) {
-        const errorMessage = `ERROR: ${error instanceof Error ? error.message : String(error)}`;
+        return ToolResult.error(
+          'hook_failed',
+          `afterToolCall hook '${hook.name ?? 'anonymous'}' failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
 
+    return result;
+  }
+
+  private emitToolCallEnd(
+    toolCall: ToolCall,
+    iteration: number,
+    result: ToolResult,
+    startedAt: number
+  ): void {
+    this.emit({
+      type: 'tool_call_end',
+      iteration,
+      toolCallId: toolCall.id,
+      name: toolCall.function.name,
+      arguments: toolCall.function.arguments,
+      result: ToolResult.format(result),
+      isError: ToolResult.isError(result),
+      toolResult: result,
+      durationMs: Date.now() - startedAt
+    });
+  }
+
+  /**
+   * Append a message to the conversation and announce it
+   */
+  private addMessage(message: Message): void {
+    this.messages.push(message);
+    this.emit({ type: 'message', message });
+  }
+
+  /**
+   * Deliver an event to all listeners
+   * A failing listener must not break the run
+   */
+  private emit(event: AgentEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
         if (this.config.verbose) {
-          console.error(`[Agent] Error:`, errorMessage);
+          console.error('[Agent] Event listener failed:', error);
         }
-
-        this.messages.push({
-          role: 'tool',
-          tool_call_id: toolCall.id,
-          content: errorMessage
-        });
       }
     }
   }
@@ -200,6 +1175,16 @@ export class AIAgent {
     };
   }
 
+  /**
+   * Estimated token count of the conversation, total and per message
+   */
+  getTokenCounts(): { total: number; perMessage: number[] } {
+    const perMessage = this.messages.map((message) =>
+      this.contextManager ? this.contextManager.countMessage(message) : TokenCounter.estimateMessage(message)
+    );
+    return { total: perMessage.reduce((sum, tokens) => sum + tokens, 0), perMessage };
+  }
+
   /**
    * Get conversation history
    */
@@ -211,9 +1196,11 @@ export class AIAgent {
    * Close agent and clean up resources
    */
   async close(): Promise<void> {
-    // Placeholder for cleanup (e.g., flush telemetry)
     if (this.config.verbose) {
       console.log('[Agent] Closing agent');
     }
+
+    // Export spans buffered for this agent's runs (no-op when tracing is off)
+    await Telemetry.flush();
   }
 }
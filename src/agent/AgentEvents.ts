@@ -0,0 +1,47 @@
+import { TokenUsage } from '../providers/ModelProvider.js';
+import { Message } from '../types/Message.js';
+import { VerificationReport } from './Verifier.js';
+import { ToolResult } from '../core/ToolResult.js';
+
+/**
+ * Typed progress events emitted while the agent runs
+ */
+export type AgentEvent =
+  | { type: 'iteration_start'; iteration: number; maxIterations: number }
+  | { type: 'text_delta'; iteration: number; delta: string }
+  /** A completion failed and is retried; text deltas of the failed attempt should be discarded */
+  | { type: 'retry'; iteration: number; model: string; attempt: number; delayMs: number; error: string }
+  | { type: 'fallback'; iteration: number; fromModel: string; toModel: string; error: string }
+  | { type: 'usage'; iteration: number; usage: TokenUsage }
+  | { type: 'tool_call_start'; iteration: number; toolCallId: string; name: string; arguments: string }
+  | {
+      type: 'tool_call_end';
+      iteration: number;
+      toolCallId: string;
+      name: string;
+      arguments: string;
+      /** Text sent to the model */
+      result: string;
+      isError: boolean;
+      toolResult: ToolResult;
+      durationMs: number;
+    }
+  | { type: 'iteration_end'; iteration: number; toolCalls: number }
+  | { type: 'message'; message: Message }
+  | { type: 'compaction'; iteration: number; strategies: string[]; beforeTokens: number; afterTokens: number }
+  /** Repeated tool calls or errors; 'nudge' sends a corrective message, 'stop' ends the run early */
+  | { type: 'loop_detected'; iteration: number; reason: string; action: 'nudge' | 'stop' }
+  /** Verification commands ran after the model finished; a failure sends the output back to the model */
+  | { type: 'verification'; iteration: number; report: VerificationReport }
+  /** `output` is the final answer, or a progress summary when the run was stopped early */
+  | { type: 'done'; iterations: number; output: string; stopReason: StopReason };
+
+/**
+ * Why a run ended
+ */
+export type StopReason = 'completed' | 'max_iterations' | 'loop_detected' | 'verification_failed';
+
+/**
+ * Listener for agent events
+ */
+export type AgentEventListener = (event: AgentEvent) => void;
@@ -0,0 +1,104 @@
+import { Message } from '../types/Message.js';
+import { CompletionMessage, TokenUsage } from '../providers/ModelProvider.js';
+import { ToolMetadata } from '../core/Tool.js';
+import { ToolResult } from '../core/ToolResult.js';
+
+/**
+ * Context shared by all hooks
+ */
+export interface HookContext {
+  /** Agent label (e.g. 'main', 'code-search') */
+  agentName: string;
+  iteration: number;
+}
+
+/**
+ * Context for completion hooks
+ */
+export interface CompletionHookContext extends HookContext {
+  model: string;
+  /** Messages about to be sent (a copy - return a new array to change the request) */
+  messages: Message[];
+}
+
+/**
+ * Context for tool call hooks
+ */
+export interface ToolCallHookContext extends HookContext {
+  toolCallId: string;
+  name: string;
+  args: Record<string, any>;
+  /** What the tool declares about itself, with defaults applied */
+  metadata: Required<ToolMetadata>;
+}
+
+/**
+ * Outcome of beforeToolCall
+ */
+export type ToolCallDecision =
+  | { type: 'proceed'; args?: Record<string, any> }
+  | { type: 'veto'; reason: string };
+
+export const ToolCallDecision = {
+  /**
+   * Let the call run, optionally with rewritten arguments
+   * Rewritten arguments are validated by the tool again before it runs
+   */
+  proceed(args?: Record<string, any>): ToolCallDecision {
+    return { type: 'proceed', args };
+  },
+
+  /**
+   * Block the call; the reason is reported to the model
+   */
+  veto(reason: string): ToolCallDecision {
+    return { type: 'veto', reason };
+  }
+};
+
+/**
+ * Context for onFinish
+ */
+export interface FinishHookContext {
+  agentName: string;
+  iterations: number;
+  messages: Message[];
+  /** Final answer if the run succeeded */
+  output?: string;
+  /** Error if the run failed or was aborted */
+  error?: unknown;
+}
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Lifecycle hooks around agent iterations and tool calls
+ * Every hook is optional; hooks run in registration order and each one sees the
+ * output of the previous one. A hook that throws fails the current tool call
+ * (tool hooks) or the run (completion hooks).
+ */
+export interface AgentHooks {
+  /** Name used in logs and veto messages */
+  name?: string;
+
+  /** Inspect or replace the messages sent for one completion, including compaction summaries (history is not changed) */
+  beforeCompletion?(context: CompletionHookContext): MaybePromise<Message[] | void>;
+
+  afterCompletion?(
+    context: CompletionHookContext & { message: CompletionMessage; usage?: TokenUsage }
+  ): MaybePromise<void>;
+
+  /** Rewrite arguments or veto the call */
+  beforeToolCall?(context: ToolCallHookContext): MaybePromise<ToolCallDecision | void>;
+
+  /**
+   * Inspect or rewrite the result returned to the model
+   * `result` is the text the model would see, `toolResult` the structured outcome
+   */
+  afterToolCall?(
+    context: ToolCallHookContext & { result: string; isError: boolean; toolResult: ToolResult; durationMs: number }
+  ): MaybePromise<string | ToolResult | void>;
+
+  /** Called once when a run ends, successfully or not */
+  onFinish?(context: FinishHookContext): MaybePromise<void>;
+}
@@ -0,0 +1,173 @@
+import { ToolCall } from '../types/Message.js';
+
+/**
+ * Thresholds for detecting an agent that is stuck
+ */
+export interface LoopDetectionConfig {
+  /**
+   * Identical calls (same tool, arguments and result) within the window that count as a loop,
+   * counted since the last successful modifying call (default: 3)
+   */
+  maxIdenticalCalls?: number;
+  /** Consecutive calls returning the same error that count as a loop (default: 3) */
+  maxRepeatedErrors?: number;
+  /** Number of recent tool calls considered (default: 10) */
+  window?: number;
+  /** Nudges sent before the run is stopped early (default: 2, 0 stops at the first loop) */
+  maxNudges?: number;
+}
+
+/**
+ * Outcome of a finished tool call, as far as loop detection is concerned
+ */
+export interface CallOutcome {
+  /** Text the model received */
+  result: string;
+  isError: boolean;
+  /** Read-only calls change nothing, so they do not make repeating another call meaningful */
+  readOnly: boolean;
+}
+
+/**
+ * What the agent should do after a tool call
+ */
+export type LoopVerdict =
+  | { type: 'ok' }
+  | { type: 'nudge'; reason: string; message: string }
+  | { type: 'stop'; reason: string };
+
+interface CallRecord {
+  signature: string;
+  name: string;
+  result: string;
+  error: string | null;
+  /** Succeeded and may have changed something (file write, command, ...) */
+  modifying: boolean;
+}
+
+/**
+ * Detects repeated identical tool calls and repeated identical errors
+ * The first detections produce a corrective nudge for the model; once the
+ * nudges are used up the run should stop early.
+ */
+export class LoopDetector {
+  private readonly config: Required<LoopDetectionConfig>;
+  private calls: CallRecord[] = [];
+  private nudges = 0;
+
+  constructor(config: LoopDetectionConfig = {}) {
+    this.config = {
+      maxIdenticalCalls: config.maxIdenticalCalls ?? 3,
+      maxRepeatedErrors: config.maxRepeatedErrors ?? 3,
+      window: config.window ?? 10,
+      maxNudges: config.maxNudges ?? 2
+    };
+  }
+
+  /**
+   * Record a finished tool call and decide whether the agent is looping
+   */
+  record(toolCall: ToolCall, outcome: CallOutcome): LoopVerdict {
+    const record: CallRecord = {
+      signature: `${toolCall.function.name}:${normalizeArguments(toolCall.function.arguments)}`,
+      name: toolCall.function.name,
+      result: outcome.result,
+      error: outcome.isError ? outcome.result : null,
+      modifying: !outcome.readOnly && !outcome.isError
+    };
+    this.calls = [...this.calls, record].slice(-this.config.window);
+
+    const reason = this.detect(record);
+    if (!reason) {
+      return { type: 'ok' };
+    }
+
+    // Start counting afresh so the same loop is not reported again right away
+    this.calls = [];
+
+    if (this.nudges >= this.config.maxNudges) {
+      return { type: 'stop', reason };
+    }
+
+    this.nudges++;
+    return {
+      type: 'nudge',
+      reason,
+      message: `It looks like you are stuck: ${reason}. Repeating the same action will not give a different ` +
+        'result. Step back, reconsider the approach (different tool, different arguments, or read more ' +
+        'context first), or finish and explain what is blocking you.'
+    };
+  }
+
+  /**
+   * Forget history, e.g. when a new run starts
+   */
+  reset(): void {
+    this.calls = [];
+    this.nudges = 0;
+  }
+
+  private detect(latest: CallRecord): string | null {
+    const identical = this.countIdentical(latest);
+    if (identical >= this.config.maxIdenticalCalls) {
+      return `'${latest.name}' was called ${identical} times with identical arguments`;
+    }
+
+    if (latest.error !== null) {
+      let repeated = 0;
+      for (let i = this.calls.length - 1; i >= 0 && this.calls[i].error === latest.error; i--) {
+        repeated++;
+      }
+      if (repeated >= this.config.maxRepeatedErrors) {
+        return `the last ${repeated} tool calls failed with the same error`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Repeats of the latest call with the same result
+   * Another call that changed something resets the count: build, edit, build is progress,
+   * and so is reading a file again after editing it.
+   */
+  private countIdentical(latest: CallRecord): number {
+    let identical = 0;
+
+    for (let i = this.calls.length - 1; i >= 0; i--) {
+      const call = this.calls[i];
+      if (call.signature === latest.signature) {
+        identical += call.result === latest.result ? 1 : 0;
+      } else if (call.modifying) {
+        break;
+      }
+    }
+
+    return identical;
+  }
+}
+
+/**
+ * Canonical form of JSON arguments so key order and whitespace do not matter
+ */
+function normalizeArguments(args: string): string {
+  try {
+    return JSON.stringify(sortKeys(JSON.parse(args)));
+  } catch {
+    return args.trim();
+  }
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
@@ -0,0 +1,94 @@
+import { ProviderError } from '../providers/ModelProvider.js';
+
+/**
+ * Retry behaviour for failed completions
+ */
+export interface RetryPolicy {
+  /** Retries per model before falling back (default: 3) */
+  maxRetries: number;
+  /** Delay before the first retry (default: 1000ms) */
+  initialDelayMs: number;
+  /** Upper bound for computed backoff delays (default: 30s) */
+  maxDelayMs: number;
+  /** Backoff growth factor per attempt (default: 2) */
+  multiplier: number;
+  /** Random spread applied to computed delays, 0-1 (default: 0.2 = ±20%) */
+  jitter: number;
+  /** Upper bound for server-requested Retry-After waits (default: 60s) */
+  maxRetryAfterMs: number;
+  /** HTTP statuses worth retrying; connection errors are always retried */
+  retryableStatuses: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30_000,
+  multiplier: 2,
+  jitter: 0.2,
+  maxRetryAfterMs: 60_000,
+  retryableStatuses: [408, 409, 429, 500, 502, 503, 504]
+};
+
+/**
+ * Statuses that mean "this model cannot serve the request" - try the next fallback model
+ */
+const MODEL_UNAVAILABLE_STATUSES = [403, 404];
+
+/**
+ * Retry decision helpers
+ */
+export const Retry = {
+  /**
+   * Whether retrying the same request may succeed
+   */
+  isRetryable(error: unknown, policy: RetryPolicy): boolean {
+    if (!(error instanceof ProviderError)) {
+      return false;
+    }
+
+    // No status: connection reset, DNS failure, timeout
+    return error.status === undefined || policy.retryableStatuses.includes(error.status);
+  },
+
+  /**
+   * Whether a fallback model may succeed where the current model failed
+   */
+  shouldFallback(error: unknown, policy: RetryPolicy): boolean {
+    return this.isRetryable(error, policy) ||
+      (error instanceof ProviderError &&
+        error.status !== undefined &&
+        MODEL_UNAVAILABLE_STATUSES.includes(error.status));
+  },
+
+  /**
+   * Delay before retry number `attempt` (0-based)
+   * A server-provided Retry-After takes precedence over exponential backoff
+   */
+  delayFor(attempt: number, error: unknown, policy: RetryPolicy, random: () => number = Math.random): number {
+    if (error instanceof ProviderError && error.retryAfterMs !== undefined) {
+      return Math.min(error.retryAfterMs, policy.maxRetryAfterMs);
+    }
+
+    const base = Math.min(policy.initialDelayMs * Math.pow(policy.multiplier, attempt), policy.maxDelayMs);
+    const spread = base * policy.jitter * (random() * 2 - 1);
+    return Math.max(0, Math.round(base + spread));
+  },
+
+  /**
+   * Wait, resolving early if the signal aborts
+   */
+  sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+};
@@ -0,0 +1,83 @@
+import { ZodType, ZodTypeDef } from 'zod';
+import { BaseTool, ToolMetadata } from '../core/Tool.js';
+import { ToolResult } from '../core/ToolResult.js';
+import { JsonSchema } from '../schema/JsonSchema.js';
+
+/**
+ * Name of the tool the model calls to hand in a structured result
+ */
+export const SUBMIT_RESULT_TOOL = 'submit_result';
+
+/**
+ * Tool through which the model submits the final answer of a structured run
+ * Arguments are validated against the caller's zod schema; validation errors go
+ * back to the model as a tool error so it can correct itself.
+ * Non-object schemas are wrapped as `{ result: ... }` because function
+ * parameters must be objects.
+ */
+export class SubmitResultTool<T> extends BaseTool<Record<string, any>, ToolResult> {
+  readonly name = SUBMIT_RESULT_TOOL;
+  readonly description =
+    'Submit the final result of the task. Call this exactly once when you are done, ' +
+    'with arguments matching the parameter schema. Do not answer in plain text instead.';
+  readonly metadata: ToolMetadata = { destructive: false, category: 'agent' };
+
+  private readonly wrapped: boolean;
+  private submission: { value: T } | null = null;
+
+  constructor(private schema: ZodType<T, ZodTypeDef, unknown>) {
+    super();
+    this.wrapped = !JsonSchema.isObject(schema);
+  }
+
+  async execute(args: Record<string, any>): Promise<ToolResult> {
+    const parsed = this.schema.safeParse(this.wrapped ? args.result : args);
+
+    if (!parsed.success) {
+      return ToolResult.error(
+        'invalid_arguments',
+        `Result does not match the required schema:\n${JsonSchema.formatIssues(parsed.error)}`,
+        { suggestion: `Fix these problems and call ${SUBMIT_RESULT_TOOL} again.` }
+      );
+    }
+
+    this.submission = { value: parsed.data };
+    return ToolResult.ok('Result accepted');
+  }
+
+  /**
+   * The validated result, once the model submitted one
+   */
+  get accepted(): { value: T } | null {
+    return this.submission;
+  }
+
+  /**
+   * Instruction appended to the task so the model knows how to finish
+   */
+  get instructions(): string {
+    return `When you have finished, call the ${SUBMIT_RESULT_TOOL} tool with the final result. ` +
+      'Your run only ends once a valid result has been submitted.';
+  }
+
+  /**
+   * Sent when the model answers in plain text instead of submitting
+   */
+  get reminder(): string {
+    return `You must call the ${SUBMIT_RESULT_TOOL} tool to finish; plain text answers are not accepted.`;
+  }
+
+  protected getParametersSchema(): Record<string, any> {
+    const schema = JsonSchema.fromZod(this.schema);
+
+    if (!this.wrapped) {
+      return schema;
+    }
+
+    return {
+      type: 'object',
+      properties: { result: schema },
+      required: ['result']
+    };
+  }
+}
@@ -0,0 +1,150 @@
+import { ToolOutput, ToolResult } from '../core/ToolResult.js';
+import { createLimiter } from '../utils/concurrency.js';
+
+/**
+ * Execution limits for a tool, enforced by the agent
+ */
+export interface ToolPolicy {
+  /** Seconds before a call is abandoned and reported as timed out (0: no timeout) */
+  timeoutSeconds?: number;
+  /** Calls allowed per run; further calls are refused */
+  maxCallsPerRun?: number;
+  /** Characters of a result sent to the model; longer results keep their head and tail */
+  maxOutputChars?: number;
+  /** Calls of the tool in flight at once (only read-only tools run concurrently at all) */
+  maxConcurrent?: number;
+}
+
+/**
+ * Limits for all tools, with overrides by tool name
+ */
+export interface ToolPolicyConfig {
+  defaults?: ToolPolicy;
+  /** Merged over the defaults, e.g. { execute__shell_command: { timeoutSeconds: 660 } } */
+  tools?: Record<string, ToolPolicy>;
+}
+
+/** Share of a truncated result kept from its start; the rest comes from its end */
+const HEAD_RATIO = 0.6;
+
+/**
+ * Applies the tool policies of one agent
+ * Call counts are per run; reset() starts a new one.
+ */
+export class ToolPolicyEnforcer {
+  private readonly calls = new Map<string, number>();
+  private readonly limiters = new Map<string, <T>(fn: () => Promise<T>) => Promise<T>>();
+
+  constructor(private readonly config: ToolPolicyConfig = {}) {}
+
+  /**
+   * Effective policy of a tool
+   */
+  policyFor(name: string): ToolPolicy {
+    return { ...this.config.defaults, ...this.config.tools?.[name] };
+  }
+
+  reset(): void {
+    this.calls.clear();
+  }
+
+  /**
+   * Count a call against the per-run limit
+   * Returns the result for the model when the limit is used up
+   */
+  admit(name: string): ToolResult | null {
+    const { maxCallsPerRun } = this.policyFor(name);
+    const count = this.calls.get(name) ?? 0;
+
+    if (maxCallsPerRun !== undefined && count >= maxCallsPerRun) {
+      return ToolResult.error('rate_limited', `Tool '${name}' may be called at most ${maxCallsPerRun} time(s) per run`, {
+        suggestion: 'Continue with the information you already have, or use another tool.'
+      });
+    }
+
+    this.calls.set(name, count + 1);
+    return null;
+  }
+
+  /**
+   * Run a call within the tool's concurrency limit and timeout
+   * On timeout the signal passed to the call is aborted and its result is discarded.
+   */
+  async execute(
+    name: string,
+    signal: AbortSignal | undefined,
+    fn: (signal: AbortSignal | undefined) => Promise<ToolOutput>
+  ): Promise<ToolResult> {
+    const policy = this.policyFor(name);
+    const run = () => policy.timeoutSeconds ? withTimeout(name, policy.timeoutSeconds, signal, fn) : fn(signal).then(ToolResult.from);
+
+    if (!policy.maxConcurrent) {
+      return run();
+    }
+
+    let limiter = this.limiters.get(name);
+    if (!limiter) {
+      limiter = createLimiter(policy.maxConcurrent);
+      this.limiters.set(name, limiter);
+    }
+    return limiter(run);
+  }
+
+  /**
+   * Shorten the content of a result to the tool's output limit
+   */
+  limitOutput(name: string, result: ToolResult): ToolResult {
+    const { maxOutputChars } = this.policyFor(name);
+
+    if (maxOutputChars === undefined || result.content.length <= maxOutputChars) {
+      return result;
+    }
+
+    const head = Math.floor(maxOutputChars * HEAD_RATIO);
+    const tail = maxOutputChars - head;
+    const omitted = result.content.length - head - tail;
+
+    return {
+      ...result,
+      content: `${result.content.slice(0, head)}\n\n` +
+        `[... ${omitted} characters omitted, output of '${name}' is limited to ${maxOutputChars} characters ...]\n\n` +
+        result.content.slice(result.content.length - tail)
+    };
+  }
+}
+
+async function withTimeout(
+  name: string,
+  timeoutSeconds: number,
+  signal: AbortSignal | undefined,
+  fn: (signal: AbortSignal | undefined) => Promise<ToolOutput>
+): Promise<ToolResult> {
+  // The call gets its own signal, aborted by the run or by the timeout
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) {
+    controller.abort();
+  }
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<ToolResult>((resolve) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      resolve(ToolResult.timeout(`Tool '${name}' did not finish within ${timeoutSeconds} seconds`, {
+        suggestion: 'Try a smaller or more specific request, or another approach.'
+      }));
+    }, timeoutSeconds * 1000);
+  });
+
+  const execution = fn(controller.signal).then(ToolResult.from);
+  // A call that loses the race may still fail later; that must not become an unhandled rejection
+  execution.catch(() => undefined);
+
+  try {
+    return await Promise.race([execution, timedOut]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
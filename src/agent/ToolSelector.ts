@@ -0,0 +1,236 @@
+import { z } from 'zod';
+import { Tool, ToolMetadata } from '../core/Tool.js';
+import { ZodTool } from '../core/ZodTool.js';
+import { ToolResult } from '../core/ToolResult.js';
+import { Message, MessageContent } from '../types/Message.js';
+
+/**
+ * Controls which tools are sent to the model on each turn
+ */
+export interface ToolSelectionConfig {
+  /** Tools exposed on every turn; all others are picked by relevance */
+  coreTools: string[];
+  /** Non-core tools exposed per turn by relevance (default: 8) */
+  maxSelected?: number;
+  /** Recent messages matched against tool descriptions in addition to the task (default: 6) */
+  recentMessages?: number;
+}
+
+/**
+ * Name of the meta-tool the model uses to find tools that are not exposed
+ */
+export const SEARCH_TOOLS_TOOL = 'search_tools';
+
+/** Matches the search tool enables for the following turns */
+const MAX_SEARCH_RESULTS = 5;
+
+/** Tool results are long; only their start says what they are about */
+const MAX_MESSAGE_CHARS = 2000;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'are', 'was', 'were', 'will', 'can',
+  'you', 'your', 'use', 'using', 'used', 'all', 'any', 'not', 'but', 'have', 'has', 'its', 'then',
+  'than', 'them', 'they', 'what', 'when', 'which', 'who', 'how', 'should', 'would', 'could', 'please',
+  'task', 'project', 'path', 'file', 'files', 'tool', 'tools', 'error', 'success', 'result'
+]);
+
+/**
+ * Picks the tools exposed to the model from a large tool set
+ *
+ * Core tools are always exposed. Other tools are ranked by how well their name,
+ * description and parameters match the task and the recent conversation, and the
+ * best matches are exposed. Tools the model called recently or enabled through
+ * search_tools stay exposed. Hidden tools can still be executed; they are only
+ * left out of the request to keep the prompt small.
+ */
+export class ToolSelector {
+  private readonly config: Required<ToolSelectionConfig>;
+  private readonly core: Set<string>;
+  private readonly candidates: Tool[];
+  private readonly index = new Map<string, Map<string, number>>();
+  private readonly documentFrequency = new Map<string, number>();
+  private readonly enabled = new Set<string>();
+  readonly searchTool: Tool;
+
+  constructor(tools: Tool[], config: ToolSelectionConfig) {
+    this.config = {
+      coreTools: config.coreTools,
+      maxSelected: config.maxSelected ?? 8,
+      recentMessages: config.recentMessages ?? 6
+    };
+    this.core = new Set(config.coreTools);
+    this.candidates = tools.filter((tool) => !this.core.has(tool.name));
+
+    for (const tool of this.candidates) {
+      const weights = toolTerms(tool);
+      this.index.set(tool.name, weights);
+      for (const term of weights.keys()) {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+      }
+    }
+
+    this.searchTool = new SearchToolsTool(this);
+  }
+
+  /**
+   * Whether some tools can be hidden at all
+   * With few non-core tools everything is exposed and no search tool is needed
+   */
+  get active(): boolean {
+    return this.candidates.length > this.config.maxSelected;
+  }
+
+  /**
+   * Tools to expose for the next completion
+   */
+  select(tools: Tool[], messages: Message[]): Tool[] {
+    if (!this.active) {
+      return tools.filter((tool) => tool !== this.searchTool);
+    }
+
+    const recent = messages.slice(-this.config.recentMessages);
+    const sticky = new Set([...this.enabled, ...calledTools(recent)]);
+    const ranked = this.rank(queryTerms(conversationText(messages, recent)))
+      .filter((name) => !sticky.has(name))
+      .slice(0, this.config.maxSelected);
+    const exposed = new Set([...sticky, ...ranked]);
+
+    return tools.filter((tool) =>
+      tool === this.searchTool || !this.index.has(tool.name) || exposed.has(tool.name)
+    );
+  }
+
+  /**
+   * Find non-core tools matching a query and expose them from now on
+   */
+  search(query: string): ToolResult {
+    const matches = this.rank(queryTerms(query)).slice(0, MAX_SEARCH_RESULTS);
+
+    if (matches.length === 0) {
+      return ToolResult.ok(
+        `No tools match '${query}'. Try other keywords, e.g. the kind of system or action you need.`,
+        { enabled: [] }
+      );
+    }
+
+    for (const name of matches) {
+      this.enabled.add(name);
+    }
+
+    const lines = matches.map((name) => {
+      const tool = this.candidates.find((t) => t.name === name)!;
+      return `- ${tool.name}: ${tool.description}`;
+    });
+    return ToolResult.ok(`Enabled ${matches.length} tool(s), callable from your next step:\n${lines.join('\n')}`, { enabled: matches });
+  }
+
+  /**
+   * Non-core tool names with a positive score, best first
+   */
+  private rank(query: Set<string>): string[] {
+    const total = this.candidates.length;
+
+    return this.candidates
+      .map((tool) => {
+        const weights = this.index.get(tool.name)!;
+        let score = 0;
+        for (const term of query) {
+          const weight = weights.get(term);
+          if (weight) {
+            // Rare terms say more about a tool than terms every tool shares
+            score += weight * Math.log(1 + total / this.documentFrequency.get(term)!);
+          }
+        }
+        return { name: tool.name, score };
+      })
+      .filter((entry) => entry.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .map((entry) => entry.name);
+  }
+}
+
+const SearchToolsSchema = z.object({
+  query: z.string().trim().min(1, 'Describe the tool you are looking for').describe('Keywords describing the capability you need')
+});
+
+class SearchToolsTool extends ZodTool<typeof SearchToolsSchema> {
+  readonly name = SEARCH_TOOLS_TOOL;
+  readonly description = 'Search additional tools that are available but not listed yet, by keywords ' +
+    'describing what you need to do (e.g. "create pull request", "query database"). Matching tools ' +
+    'become callable from your next step.';
+  readonly metadata: ToolMetadata = { readOnly: true, category: 'agent' };
+  readonly schema = SearchToolsSchema;
+
+  constructor(private selector: ToolSelector) {
+    super();
+  }
+
+  async execute(args: z.output<typeof SearchToolsSchema>): Promise<ToolResult> {
+    return this.selector.search(args.query);
+  }
+}
+
+/**
+ * Text the next turn is about: the task plus the recent messages
+ */
+function conversationText(messages: Message[], recent: Message[]): string {
+  const task = messages.find((message) => message.role === 'user');
+  return [task, ...recent]
+    .filter((message): message is Message => message !== undefined)
+    .map((message) => [
+      MessageContent.text(message.content).substring(0, MAX_MESSAGE_CHARS),
+      ...(message.tool_calls ?? []).map((call) => `${call.function.name} ${call.function.arguments}`)
+    ].join(' '))
+    .join('\n');
+}
+
+function calledTools(messages: Message[]): string[] {
+  return messages.flatMap((message) => (message.tool_calls ?? []).map((call) => call.function.name));
+}
+
+/**
+ * Weighted terms of a tool: name terms count most, then description, then parameters
+ */
+function toolTerms(tool: Tool): Map<string, number> {
+  const weights = new Map<string, number>();
+  const add = (text: string, weight: number) => {
+    for (const term of terms(text)) {
+      weights.set(term, Math.max(weights.get(term) ?? 0, weight));
+    }
+  };
+
+  const parameters = tool.toOpenAIFunction().parameters?.properties ?? {};
+  for (const [name, schema] of Object.entries<Record<string, any>>(parameters)) {
+    add(`${name} ${typeof schema?.description === 'string' ? schema.description : ''}`, 0.5);
+  }
+  add(tool.description, 1);
+  add(tool.name, 3);
+
+  return weights;
+}
+
+function queryTerms(text: string): Set<string> {
+  return new Set(terms(text));
+}
+
+/**
+ * Split identifiers and prose into lower-case word stems
+ */
+function terms(text: string): string[] {
+  return text
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 2 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) {
+    return word.slice(0, -3) + 'y';
+  }
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
@@ -0,0 +1,135 @@
+import { ExecuteShellCommandTool } from '../tools/ShellCommandTool.js';
+import { ToolResult } from '../core/ToolResult.js';
+
+/**
+ * Commands that must pass before the agent may declare a task done
+ */
+export interface VerificationConfig {
+  /** Run in order, e.g. ['npm run build', 'npm test']; the first failure stops the round */
+  commands: string[];
+  /** Runs the commands, so the usual shell confirmation applies */
+  shell: ExecuteShellCommandTool;
+  /** Working directory of the commands (default: the process working directory) */
+  workingDirectory?: string;
+  /** Verification rounds before the run is stopped with failing checks (default: 3) */
+  maxAttempts?: number;
+  /** Timeout per command in seconds (default: 300) */
+  timeoutSeconds?: number;
+}
+
+/**
+ * Outcome of one verification command
+ */
+export interface VerificationCommandResult {
+  command: string;
+  passed: boolean;
+  /** Formatted command output, as the model would see it */
+  output: string;
+  durationMs: number;
+}
+
+/**
+ * Outcome of one verification round
+ */
+export interface VerificationReport {
+  passed: boolean;
+  attempt: number;
+  maxAttempts: number;
+  results: VerificationCommandResult[];
+}
+
+/**
+ * Largest part of a failing command's output sent back to the model
+ * Build and test failures are reported at the end, so the tail is kept
+ */
+const MAX_FEEDBACK_CHARS = 8000;
+
+/**
+ * Runs the verification commands when the model says it is finished
+ */
+export class Verifier {
+  private readonly config: Required<Omit<VerificationConfig, 'workingDirectory'>> & { workingDirectory?: string };
+  private attempts = 0;
+
+  constructor(config: VerificationConfig) {
+    this.config = {
+      ...config,
+      maxAttempts: config.maxAttempts ?? 3,
+      timeoutSeconds: config.timeoutSeconds ?? 300
+    };
+  }
+
+  /**
+   * Whether another round may be started after a failure
+   */
+  get canRetry(): boolean {
+    return this.attempts < this.config.maxAttempts;
+  }
+
+  /**
+   * Forget previous rounds, e.g. when a new run starts
+   */
+  reset(): void {
+    this.attempts = 0;
+  }
+
+  /**
+   * Run all commands until the first failure
+   */
+  async verify(signal?: AbortSignal, onCommand?: (command: string) => void): Promise<VerificationReport> {
+    this.attempts++;
+    const results: VerificationCommandResult[] = [];
+
+    for (const command of this.config.commands) {
+      onCommand?.(command);
+      const startedAt = Date.now();
+      const run = await this.config.shell.run(
+        { command, timeoutSeconds: this.config.timeoutSeconds, workingDirectory: this.config.workingDirectory },
+        { signal }
+      );
+
+      const passed = run.success && run.value.exitCode === 0 && !run.value.timedOut && !run.value.aborted;
+      results.push({
+        command,
+        passed,
+        output: run.success ? this.config.shell.formatResult(run.value) : ToolResult.format(run.error),
+        durationMs: Date.now() - startedAt
+      });
+
+      if (!passed) {
+        break;
+      }
+    }
+
+    return {
+      passed: results.every((result) => result.passed),
+      attempt: this.attempts,
+      maxAttempts: this.config.maxAttempts,
+      results
+    };
+  }
+
+  /**
+   * Message that hands a failed round back to the model
+   */
+  feedback(report: VerificationReport): string {
+    const failed = report.results.find((result) => !result.passed)!;
+    const output = failed.output.length > MAX_FEEDBACK_CHARS
+      ? `[... ${failed.output.length - MAX_FEEDBACK_CHARS} characters omitted]\n${failed.output.slice(-MAX_FEEDBACK_CHARS)}`
+      : failed.output;
+    const passed = report.results.filter((result) => result.passed).map((result) => result.command);
+
+    return `Verification failed (attempt ${report.attempt}/${report.maxAttempts}), so the task is not done yet.` +
+      (passed.length > 0 ? `\nPassed: ${passed.join(', ')}` : '') +
+      `\n\n${output}\n\n` +
+      'Fix the cause of the failure, then finish again; the verification commands run automatically when you do.';
+  }
+
+  /**
+   * One-line summary, e.g. "passed (npm run build ✓, npm test ✓)"
+   */
+  static summarize(report: VerificationReport): string {
+    const commands = report.results.map((result) => `${result.command} ${result.passed ? '✓' : '✗'}`).join(', ');
+    return `${report.passed ? 'passed' : 'failed'} on attempt ${report.attempt}/${report.maxAttempts} (${commands})`;
+  }
+}
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { AIAgent } from '../agent/AIAgent.js';
+import { Cassette, CassetteMismatchError } from './Cassette.js';
+import { NodeFileSystemProvider } from '../core/FileSystemProvider.js';
+import { ModelProvider } from '../providers/ModelProvider.js';
+import { RecordingProvider } from '../providers/RecordingProvider.js';
+import { ReplayProvider } from '../providers/ReplayProvider.js';
+import { Scripted, ScriptedProvider } from '../providers/ScriptedProvider.js';
+import { CODE_SEARCH_DEFAULT_MODEL } from '../subagents/CodeSearchAgent.js';
+import { CodeSearchAgentTool } from '../subagents/CodeSearchAgentTool.js';
+import { MessageContent } from '../types/Message.js';
+import { Result } from '../types/Result.js';
+
+const SEARCH_TOOL = '__find_in_codebase_agent__';
+
+/**
+ * Main agent that runs two code searches in one turn; the 'alpha' search answers last
+ */
+const liveProvider: ModelProvider = {
+  name: 'live',
+  async complete(request) {
+    if (request.model === CODE_SEARCH_DEFAULT_MODEL) {
+      const query = MessageContent.text(request.messages[request.messages.length - 1].content);
+      await new Promise((resolve) => setTimeout(resolve, query === 'alpha' ? 30 : 0));
+      return Scripted.text(`FOUND: ${query}`);
+    }
+
+    if (request.messages.some((message) => message.role === 'tool')) {
+      return Scripted.text('done');
+    }
+
+    return {
+      message: {
+        content: null,
+        tool_calls: [
+          { id: 'call_alpha', type: 'function', function: { name: SEARCH_TOOL, arguments: '{"query":"alpha"}' } },
+          { id: 'call_beta', type: 'function', function: { name: SEARCH_TOOL, arguments: '{"query":"beta"}' } }
+        ]
+      },
+      finishReason: 'tool_calls'
+    };
+  }
+};
+
+function createAgent(provider: ModelProvider): AIAgent {
+  const fileSystem = new NodeFileSystemProvider(false);
+  return new AIAgent({
+    provider,
+    systemPrompt: 'You are a test agent.',
+    tools: [new CodeSearchAgentTool(provider, fileSystem, '.')]
+  });
+}
+
+describe('Cassette', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cassette-'));
+    filePath = path.join(dir, 'run.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('replays a recorded run without the original provider', async () => {
+    const scripted = new ScriptedProvider([Scripted.text('Hello!')]);
+    const recorded = await createAgent(new RecordingProvider(scripted, Cassette.create(filePath))).run('Say hello');
+
+    const cassette = Result.unwrap(await Cassette.load(filePath));
+    const replayed = await createAgent(new ReplayProvider(cassette)).run('Say hello');
+
+    expect(replayed).toBe(recorded);
+    expect(cassette.remaining).toBe(0);
+  });
+
+  it('rejects a request that differs from the recording', async () => {
+    await createAgent(new RecordingProvider(new ScriptedProvider([Scripted.text('Hello!')]), Cassette.create(filePath))).run('Say hello');
+
+    const cassette = Result.unwrap(await Cassette.load(filePath));
+    await expect(createAgent(new ReplayProvider(cassette)).run('Say goodbye'))
+      .rejects.toThrow(/request\.messages\[1\]\.content: expected "Say hello", got "Say goodbye"/);
+  });
+
+  it('replays concurrent sub-agent completions in a different order than recorded', async () => {
+    const recording = Cassette.create(filePath);
+    const recorded = await createAgent(new RecordingProvider(liveProvider, recording)).run('Find alpha and beta');
+    expect(recorded).toBe('done');
+
+    const cassette = Result.unwrap(await Cassette.load(filePath));
+    const replayed = await createAgent(new ReplayProvider(cassette)).run('Find alpha and beta');
+
+    expect(replayed).toBe('done');
+    expect(cassette.remaining).toBe(0);
+  });
+
+  it('fails the run when a sub-agent request is not in the cassette', async () => {
+    const recording = Cassette.create(filePath);
+    await createAgent(new RecordingProvider(liveProvider, recording)).run('Find alpha and beta');
+
+    const file = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    file.interactions = file.interactions.filter(
+      (interaction: { request: { model: string } }) => interaction.request.model !== CODE_SEARCH_DEFAULT_MODEL
+    );
+    await fs.writeFile(filePath, JSON.stringify(file));
+
+    // Matching by model only: the main agent's requests would match even with failed searches
+    const cassette = Result.unwrap(await Cassette.load(filePath, ['model']));
+    await expect(createAgent(new ReplayProvider(cassette)).run('Find alpha and beta'))
+      .rejects.toBeInstanceOf(CassetteMismatchError);
+  });
+});
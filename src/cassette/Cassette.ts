@@ -0,0 +1,247 @@
+import fs from 'fs/promises';
+import { writeFileSync } from 'fs';
+import { CompletionRequest, CompletionResponse } from '../providers/ModelProvider.js';
+import { JsonRpcRequest, JsonRpcResponse } from '../mcp/McpProtocol.js';
+import { Result } from '../types/Result.js';
+
+/**
+ * Serializable part of a completion request (the abort signal is dropped)
+ */
+export type RecordedCompletionRequest = Pick<CompletionRequest, 'model' | 'messages' | 'tools' | 'toolChoice'>;
+
+/**
+ * One recorded exchange
+ */
+export type CassetteInteraction =
+  | { type: 'completion'; request: RecordedCompletionRequest; response: CompletionResponse }
+  | { type: 'mcp'; serverUrl: string; request: JsonRpcRequest; response: JsonRpcResponse<unknown> };
+
+/**
+ * On-disk cassette format
+ */
+export interface CassetteFile {
+  version: 1;
+  recordedAt: string;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * Parts of a completion request compared during replay
+ */
+export type CompletionMatcher = 'model' | 'messages' | 'tools' | 'toolChoice';
+
+/**
+ * Thrown when a replayed run sends a request the cassette does not contain
+ */
+export class CassetteMismatchError extends Error {
+  constructor(
+    message: string,
+    public filePath: string,
+    public interactionIndex?: number
+  ) {
+    super(message);
+    this.name = 'CassetteMismatchError';
+  }
+}
+
+/**
+ * Recorded completion and MCP exchanges of agent runs
+ *
+ * Recording appends every successful exchange and rewrites the file immediately.
+ * Replay serves each request the first unused recorded exchange that matches it:
+ * completions by the compared request fields, MCP requests by method and params.
+ * Anything that does not match throws CassetteMismatchError.
+ */
+export class Cassette {
+  private used: boolean[];
+
+  private constructor(
+    readonly filePath: string,
+    private interactions: CassetteInteraction[],
+    private match: CompletionMatcher[] = ['model', 'messages', 'tools', 'toolChoice']
+  ) {
+    this.used = interactions.map(() => false);
+  }
+
+  /**
+   * Start an empty cassette that is written to `filePath`
+   */
+  static create(filePath: string): Cassette {
+    const cassette = new Cassette(filePath, []);
+    cassette.save();
+    return cassette;
+  }
+
+  /**
+   * Load a cassette for replay
+   */
+  static async load(
+    filePath: string,
+    match?: CompletionMatcher[]
+  ): Promise<Result<Cassette, Error>> {
+    let file: CassetteFile;
+    try {
+      file = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error) {
+      return Result.err(new Error(`Cannot read cassette ${filePath}: ${error instanceof Error ? error.message : String(error)}`));
+    }
+
+    if (file.version !== 1 || !Array.isArray(file.interactions)) {
+      return Result.err(new Error(`Unsupported cassette format: ${filePath}`));
+    }
+
+    return Result.ok(new Cassette(filePath, file.interactions, match));
+  }
+
+  record(interaction: CassetteInteraction): void {
+    // Round-trip through JSON so later mutations of the agent's history do not leak in
+    this.interactions.push(JSON.parse(JSON.stringify(interaction)));
+    this.used.push(true);
+    this.save();
+  }
+
+  /**
+   * Response for a completion request, matched against the unused recorded ones
+   * The first matching one in recorded order is served, so concurrent agents whose
+   * requests interleave differently than during recording still replay.
+   */
+  replayCompletion(request: RecordedCompletionRequest): CompletionResponse {
+    const actual = this.pick(request);
+    const key = JSON.stringify(actual);
+    const unused = this.interactions
+      .map((interaction, index) => ({ interaction, index }))
+      .filter(({ interaction, index }) => !this.used[index] && interaction.type === 'completion');
+
+    if (unused.length === 0) {
+      throw new CassetteMismatchError(
+        `Cassette ${this.filePath} has no more recorded completions (request for model ${request.model})`,
+        this.filePath
+      );
+    }
+
+    const match = unused.find(({ interaction }) =>
+      interaction.type === 'completion' && JSON.stringify(this.pick(interaction.request)) === key
+    );
+
+    if (!match) {
+      // Report against the next recorded completion, the likeliest counterpart
+      const next = unused[0];
+      const recorded = next.interaction.type === 'completion' ? this.pick(next.interaction.request) : {};
+      throw new CassetteMismatchError(
+        `Completion request does not match any of the ${unused.length} unused completion(s) in ${this.filePath}; ` +
+          `compared with interaction #${next.index}: ${firstDifference(recorded, actual, 'request')}`,
+        this.filePath,
+        next.index
+      );
+    }
+
+    this.used[match.index] = true;
+    const interaction = match.interaction as Extract<CassetteInteraction, { type: 'completion' }>;
+    return JSON.parse(JSON.stringify(interaction.response));
+  }
+
+  /**
+   * Response for an MCP request, matched by server, method and params
+   * The recorded response is returned with the id of the new request
+   */
+  replayMcp(serverUrl: string, request: JsonRpcRequest): JsonRpcResponse<unknown> {
+    const key = JSON.stringify(normalize({ method: request.method, params: request.params }));
+
+    const index = this.interactions.findIndex((interaction, i) =>
+      !this.used[i] &&
+      interaction.type === 'mcp' &&
+      interaction.serverUrl === serverUrl &&
+      JSON.stringify(normalize({ method: interaction.request.method, params: interaction.request.params })) === key
+    );
+
+    if (index === -1) {
+      throw new CassetteMismatchError(
+        `Cassette ${this.filePath} has no unused MCP interaction for ${request.method} ${JSON.stringify(request.params ?? {})} on ${serverUrl}`,
+        this.filePath
+      );
+    }
+
+    this.used[index] = true;
+    const interaction = this.interactions[index] as Extract<CassetteInteraction, { type: 'mcp' }>;
+    return { ...JSON.parse(JSON.stringify(interaction.response)), id: request.id };
+  }
+
+  /**
+   * Whether any MCP exchange was recorded for a server
+   */
+  hasMcp(serverUrl: string): boolean {
+    return this.interactions.some((interaction) => interaction.type === 'mcp' && interaction.serverUrl === serverUrl);
+  }
+
+  /**
+   * Number of recorded interactions that were not replayed
+   * Tests can assert this is 0 to catch runs that stopped early
+   */
+  get remaining(): number {
+    return this.used.filter((used) => !used).length;
+  }
+
+  private pick(request: RecordedCompletionRequest): Record<string, unknown> {
+    const picked: Record<string, unknown> = {};
+    for (const key of this.match) {
+      picked[key] = request[key];
+    }
+    return normalize(picked);
+  }
+
+  private save(): void {
+    const file: CassetteFile = {
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      interactions: this.interactions
+    };
+    writeFileSync(this.filePath, JSON.stringify(file, null, 2) + '\n', 'utf-8');
+  }
+}
+
+/**
+ * Drop undefined fields so recorded and live values compare equal
+ */
+function normalize<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Describe the first difference between two JSON values, or null if equal
+ */
+function firstDifference(expected: unknown, actual: unknown, path: string): string | null {
+  if (typeof expected !== typeof actual || Array.isArray(expected) !== Array.isArray(actual) ||
+      expected === null || actual === null || typeof expected !== 'object') {
+    return expected === actual ? null : `${path}: expected ${preview(expected)}, got ${preview(actual)}`;
+  }
+
+  if (Array.isArray(expected) && Array.isArray(actual) && expected.length !== actual.length) {
+    const shorter = Math.min(expected.length, actual.length);
+    for (let i = 0; i < shorter; i++) {
+      const difference = firstDifference(expected[i], actual[i], `${path}[${i}]`);
+      if (difference) {
+        return difference;
+      }
+    }
+    return `${path}: expected ${expected.length} item(s), got ${actual.length}`;
+  }
+
+  const expectedRecord = expected as Record<string, unknown>;
+  const actualRecord = actual as Record<string, unknown>;
+  const keys = new Set([...Object.keys(expectedRecord), ...Object.keys(actualRecord)]);
+
+  for (const key of keys) {
+    const childPath = Array.isArray(expected) ? `${path}[${key}]` : `${path}.${key}`;
+    const difference = firstDifference(expectedRecord[key], actualRecord[key], childPath);
+    if (difference) {
+      return difference;
+    }
+  }
+
+  return null;
+}
+
+function preview(value: unknown): string {
+  const text = value === undefined ? 'undefined' : JSON.stringify(value);
+  return text.length > 200 ? text.substring(0, 200) + '...' : text;
+}
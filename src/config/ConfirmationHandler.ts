@@ -1,3 +1,5 @@
+import { ToolMetadata } from '../core/Tool.js';
+
 /**
  * Result of file write confirmation
  */
@@ -41,9 +43,20 @@ export interface ConfirmationHandler {
     overwrite: boolean;
     oldContent?: string;
     newContent?: string;
+    /** Tool call asking for the write, when known */
+    toolCallId?: string;
   }): Promise<FileWriteConfirmation>;
 
   requestShellCommandConfirmation(command: string): Promise<FileWriteConfirmation>;
+
+  /**
+   * Approve a call to a tool whose metadata requires confirmation (e.g. a destructive MCP tool)
+   */
+  requestToolCallConfirmation(options: {
+    name: string;
+    args: Record<string, any>;
+    metadata: Required<ToolMetadata>;
+  }): Promise<FileWriteConfirmation>;
 }
 
 /**
@@ -57,6 +70,10 @@ export class BraveConfirmationHandler implements ConfirmationHandler {
   async requestShellCommandConfirmation(): Promise<FileWriteConfirmation> {
     return FileWriteConfirmation.approved();
   }
+
+  async requestToolCallConfirmation(): Promise<FileWriteConfirmation> {
+    return FileWriteConfirmation.approved();
+  }
 }
 
 /**
@@ -72,4 +89,8 @@ export class SafeConfirmationHandler implements ConfirmationHandler {
     // TODO: Add rules-based approval logic
     return FileWriteConfirmation.approved();
   }
+
+  async requestToolCallConfirmation(): Promise<FileWriteConfirmation> {
+    return FileWriteConfirmation.approved();
+  }
 }
@@ -1,4 +1,5 @@
 import { ConfirmationHandler, FileWriteConfirmation } from './ConfirmationHandler.js';
+import { ToolMetadata } from '../core/Tool.js';
 import { InteractiveMenu, Choice } from './InteractiveMenu.js';
 import { IDEDiffApproval, ApprovalResult } from './IDEDiffApproval.js';
 import { DiffViewer } from './DiffViewer.js';
@@ -72,6 +73,35 @@ export class InteractiveConfirmationHandler implements ConfirmationHandler {
     return this.getUserChoiceForCommand(command);
   }
 
+  async requestToolCallConfirmation(options: {
+    name: string;
+    args: Record<string, any>;
+    metadata: Required<ToolMetadata>;
+  }): Promise<FileWriteConfirmation> {
+    // Check state
+    if (this.alwaysDeny) {
+      return FileWriteConfirmation.rejected();
+    }
+
+    if (this.alwaysApprove) {
+      return FileWriteConfirmation.approved();
+    }
+
+    // Check stdin availability
+    if (!process.stdin.isTTY) {
+      console.log('[Interactive] No TTY available, auto-approving');
+      return FileWriteConfirmation.approved();
+    }
+
+    // Show tool call details
+    console.log(chalk.yellow(`\n⚠️  Tool Call Request (${options.metadata.destructive ? 'destructive' : 'modifying'}):`));
+    console.log(chalk.cyan(`Tool: ${options.name}`));
+    console.log(chalk.gray(`Arguments: ${JSON.stringify(options.args, null, 2)}`));
+    console.log('');
+
+    return this.getUserChoiceForCommand(options.name, 'Run this tool?');
+  }
+
   private showOperationDetails(options: {
     path: string;
     overwrite: boolean;
@@ -184,9 +214,12 @@ export class InteractiveConfirmationHandler implements ConfirmationHandler {
     }
   }
 
-  private async getUserChoiceForCommand(_command: string): Promise<FileWriteConfirmation> {
+  private async getUserChoiceForCommand(
+    _command: string,
+    prompt: string = 'Execute this command?'
+  ): Promise<FileWriteConfirmation> {
     while (true) {
-      const choice = await this.menu.showTextMenu('Execute this command?');
+      const choice = await this.menu.showTextMenu(prompt);
 
       if (choice === null) {
         console.log(chalk.red('Invalid choice. Please try again.'));
@@ -217,7 +250,7 @@ export class InteractiveConfirmationHandler implements ConfirmationHandler {
           break;
 
         default:
-          console.log(chalk.yellow('Option not available for shell commands'));
+          console.log(chalk.yellow('Option not available for shell commands and tool calls'));
           break;
       }
     }
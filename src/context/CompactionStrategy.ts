@@ -0,0 +1,171 @@
+import { Message, MessageContent } from '../types/Message.js';
+import { CompletionResponse } from '../providers/ModelProvider.js';
+
+/**
+ * Makes a completion for a strategy (model defaults to the agent's)
+ * The agent runs it like its own turns: hooks, retries and fallback models, tracing,
+ * budget checks and usage recording.
+ */
+export type CompactionCompleter = (request: { model?: string; messages: Message[] }) => Promise<CompletionResponse>;
+
+/**
+ * Everything a strategy needs to shrink a conversation
+ */
+export interface CompactionContext {
+  complete: CompactionCompleter;
+  /** Token count the conversation should be brought under */
+  targetTokens: number;
+  /** Number of trailing messages that must be kept verbatim */
+  keepRecentMessages: number;
+  estimate(messages: Message[]): number;
+}
+
+/**
+ * Strategy for reducing the size of a conversation
+ */
+export interface CompactionStrategy {
+  readonly name: string;
+  compact(messages: Message[], context: CompactionContext): Promise<Message[]>;
+}
+
+/**
+ * Conversation split into parts that may and may not be compacted
+ */
+export interface CompactionRegions {
+  /** System prompt and the original user task */
+  pinned: Message[];
+  /** Older turns that strategies may rewrite */
+  compactable: Message[];
+  /** Most recent turns, always kept verbatim */
+  recent: Message[];
+}
+
+/**
+ * Split a conversation into pinned, compactable and recent regions
+ * The recent region never starts on a tool result, so assistant tool calls stay paired with their results
+ */
+export function splitForCompaction(messages: Message[], keepRecentMessages: number): CompactionRegions {
+  let pinnedEnd = 0;
+  if (messages[pinnedEnd]?.role === 'system') {
+    pinnedEnd++;
+  }
+  if (messages[pinnedEnd]?.role === 'user') {
+    pinnedEnd++;
+  }
+
+  let recentStart = Math.max(pinnedEnd, messages.length - keepRecentMessages);
+  while (recentStart > pinnedEnd && messages[recentStart]?.role === 'tool') {
+    recentStart--;
+  }
+
+  return {
+    pinned: messages.slice(0, pinnedEnd),
+    compactable: messages.slice(pinnedEnd, recentStart),
+    recent: messages.slice(recentStart)
+  };
+}
+
+/**
+ * Replaces old tool outputs with a short notice, oldest first, until under budget
+ */
+export class ElideToolOutputsStrategy implements CompactionStrategy {
+  readonly name = 'elide-tool-outputs';
+
+  constructor(
+    /** Outputs shorter than this are left alone */
+    private minChars: number = 500,
+    /** Characters of the original output kept as a preview */
+    private previewChars: number = 200
+  ) {}
+
+  async compact(messages: Message[], context: CompactionContext): Promise<Message[]> {
+    const { pinned, compactable, recent } = splitForCompaction(messages, context.keepRecentMessages);
+    const rewritten = [...compactable];
+
+    for (let i = 0; i < rewritten.length; i++) {
+      if (context.estimate([...pinned, ...rewritten, ...recent]) <= context.targetTokens) {
+        break;
+      }
+
+      const message = rewritten[i];
+      const output = MessageContent.text(message.content);
+      if (message.role !== 'tool' || output.length < this.minChars) {
+        continue;
+      }
+
+      rewritten[i] = {
+        ...message,
+        content: `${output.substring(0, this.previewChars)}\n` +
+          `[... ${output.length - this.previewChars} characters of earlier tool output elided to save context. ` +
+          `Call the tool again if you need the full output.]`
+      };
+    }
+
+    return [...pinned, ...rewritten, ...recent];
+  }
+}
+
+/**
+ * System prompt used for summarizing older turns
+ */
+const SUMMARY_SYSTEM_PROMPT = `You compress the history of a coding agent's conversation. Write a concise summary that preserves:
+- What has been done so far (files read, created or edited, commands run and their outcomes)
+- Important findings (file paths, function names, errors, decisions)
+- What remains to be done
+Do not invent details. Use terse bullet points.`;
+
+/**
+ * Replaces all compactable turns with a model-written summary
+ */
+export class SummarizeStrategy implements CompactionStrategy {
+  readonly name = 'summarize';
+
+  constructor(
+    /** Max characters of each message included in the summarization input */
+    private maxCharsPerMessage: number = 2000,
+    /** Model used for summarizing (defaults to the agent's model) */
+    private model?: string
+  ) {}
+
+  async compact(messages: Message[], context: CompactionContext): Promise<Message[]> {
+    const { pinned, compactable, recent } = splitForCompaction(messages, context.keepRecentMessages);
+
+    if (compactable.length === 0) {
+      return messages;
+    }
+
+    const response = await context.complete({
+      model: this.model,
+      messages: [
+        { role: 'system', content: SUMMARY_SYSTEM_PROMPT },
+        { role: 'user', content: this.render(compactable) }
+      ]
+    });
+
+    const summary: Message = {
+      role: 'user',
+      content: `[Summary of ${compactable.length} earlier messages, compacted to save context]\n\n` +
+        (response.message.content || '(no summary produced)')
+    };
+
+    return [...pinned, summary, ...recent];
+  }
+
+  private render(messages: Message[]): string {
+    return messages
+      .map((message) => {
+        const lines = [`${message.role.toUpperCase()}: ${this.truncate(MessageContent.text(message.content))}`];
+        for (const toolCall of message.tool_calls ?? []) {
+          lines.push(`  -> ${toolCall.function.name}(${this.truncate(toolCall.function.arguments)})`);
+        }
+        return lines.join('\n');
+      })
+      .join('\n\n');
+  }
+
+  private truncate(text: string): string {
+    return text.length > this.maxCharsPerMessage
+      ? `${text.substring(0, this.maxCharsPerMessage)}... (truncated)`
+      : text;
+  }
+}
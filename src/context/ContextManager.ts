@@ -0,0 +1,123 @@
+import { Message } from '../types/Message.js';
+import { TokenCounter } from './TokenCounter.js';
+import {
+  CompactionCompleter,
+  CompactionStrategy,
+  ElideToolOutputsStrategy,
+  SummarizeStrategy
+} from './CompactionStrategy.js';
+
+/**
+ * Context-window configuration
+ */
+export interface ContextConfig {
+  /** Context window of the model, in tokens */
+  maxTokens: number;
+  /** Fraction of maxTokens that triggers compaction (default: 0.8) */
+  compactThreshold?: number;
+  /** Fraction of maxTokens compaction aims for (default: 0.5) */
+  compactTarget?: number;
+  /** Trailing messages that are never compacted (default: 6) */
+  keepRecentMessages?: number;
+  /** Strategies tried in order until under target (default: elide, then summarize) */
+  strategies?: CompactionStrategy[];
+}
+
+/**
+ * Outcome of a compaction pass
+ */
+export interface CompactionResult {
+  messages: Message[];
+  compacted: boolean;
+  strategies: string[];
+  beforeTokens: number;
+  afterTokens: number;
+}
+
+/**
+ * Tracks conversation size and compacts it before it overflows the model context
+ */
+export class ContextManager {
+  private config: Required<ContextConfig>;
+  /** Ratio of real prompt tokens to estimated tokens, learned from usage reports */
+  private calibration = 1;
+
+  constructor(config: ContextConfig) {
+    this.config = {
+      ...config,
+      compactThreshold: config.compactThreshold ?? 0.8,
+      compactTarget: config.compactTarget ?? 0.5,
+      keepRecentMessages: config.keepRecentMessages ?? 6,
+      strategies: config.strategies ?? [new ElideToolOutputsStrategy(), new SummarizeStrategy()]
+    };
+  }
+
+  /**
+   * Estimated tokens for one message
+   */
+  countMessage(message: Message): number {
+    return Math.ceil(TokenCounter.estimateMessage(message) * this.calibration);
+  }
+
+  /**
+   * Estimated tokens for a conversation
+   */
+  count(messages: Message[]): number {
+    return messages.reduce((sum, message) => sum + this.countMessage(message), 0);
+  }
+
+  /**
+   * Refine estimates using the prompt tokens the provider actually reported
+   */
+  calibrate(messages: Message[], toolTokens: number, actualPromptTokens: number): void {
+    const estimated = TokenCounter.estimateMessages(messages) + toolTokens;
+    if (estimated > 0 && actualPromptTokens > 0) {
+      this.calibration = actualPromptTokens / estimated;
+    }
+  }
+
+  /**
+   * Compact the conversation if it crossed the threshold
+   */
+  async fit(
+    messages: Message[],
+    options: {
+      complete: CompactionCompleter;
+      toolTokens?: number;
+    }
+  ): Promise<CompactionResult> {
+    const toolTokens = Math.ceil((options.toolTokens ?? 0) * this.calibration);
+    const beforeTokens = this.count(messages) + toolTokens;
+    const threshold = this.config.maxTokens * this.config.compactThreshold;
+
+    if (beforeTokens <= threshold) {
+      return { messages, compacted: false, strategies: [], beforeTokens, afterTokens: beforeTokens };
+    }
+
+    const targetTokens = this.config.maxTokens * this.config.compactTarget - toolTokens;
+    const applied: string[] = [];
+    let current = messages;
+
+    for (const strategy of this.config.strategies) {
+      current = await strategy.compact(current, {
+        complete: options.complete,
+        targetTokens,
+        keepRecentMessages: this.config.keepRecentMessages,
+        estimate: (candidate) => this.count(candidate)
+      });
+      applied.push(strategy.name);
+
+      if (this.count(current) <= targetTokens) {
+        break;
+      }
+    }
+
+    return {
+      messages: current,
+      compacted: true,
+      strategies: applied,
+      beforeTokens,
+      afterTokens: this.count(current) + toolTokens
+    };
+  }
+}
@@ -0,0 +1,67 @@
+import { Message, MessageContent } from '../types/Message.js';
+
+/**
+ * Approximate characters per token for English text and code
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Fixed per-message overhead (role, separators) used by chat formats
+ */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Typical cost of an image part (a 1024x1024 image at high detail)
+ */
+const IMAGE_TOKENS = 765;
+
+/**
+ * Heuristic token counting without a tokenizer dependency
+ * Estimates are calibrated against real usage by ContextManager
+ */
+export const TokenCounter = {
+  /**
+   * Estimate tokens for a piece of text
+   */
+  estimateText(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+  },
+
+  /**
+   * Estimate tokens for a single message, including tool call arguments
+   */
+  estimateMessage(message: Message): number {
+    let tokens = MESSAGE_OVERHEAD_TOKENS +
+      this.estimateText(typeof message.content === 'string' ? message.content : '') +
+      this.estimateParts(message.content);
+
+    for (const toolCall of message.tool_calls ?? []) {
+      tokens += MESSAGE_OVERHEAD_TOKENS +
+        this.estimateText(toolCall.function.name) +
+        this.estimateText(toolCall.function.arguments);
+    }
+
+    return tokens;
+  },
+
+  /**
+   * Estimate tokens for the parts of multimodal content
+   */
+  estimateParts(content: MessageContent): number {
+    if (typeof content === 'string') {
+      return 0;
+    }
+
+    return content.reduce(
+      (sum, part) => sum + (part.type === 'text' ? this.estimateText(part.text) : IMAGE_TOKENS),
+      0
+    );
+  },
+
+  /**
+   * Estimate tokens for a whole conversation
+   */
+  estimateMessages(messages: Message[]): number {
+    return messages.reduce((sum, message) => sum + this.estimateMessage(message), 0);
+  }
+};
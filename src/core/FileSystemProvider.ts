@@ -9,6 +9,7 @@ export interface FileSystemProvider {
 
   listDirectory(path: string): Promise<Result<string[], Error>>;
   readFile(path: string): Promise<Result<string, Error>>;
+  readFileBytes(path: string): Promise<Result<Buffer, Error>>;
   writeFile(path: string, content: string): Promise<Result<void, Error>>;
   fileExists(path: string): Promise<boolean>;
   directoryExists(path: string): Promise<boolean>;
@@ -21,13 +22,20 @@ import fs from 'fs/promises';
 import path from 'path';
 import { existsSync } from 'fs';
 
+/**
+ * Error for a missing path, with the code Node uses so callers can tell it apart
+ */
+function notFound(message: string): NodeJS.ErrnoException {
+  return Object.assign(new Error(message), { code: 'ENOENT' });
+}
+
 export class NodeFileSystemProvider implements FileSystemProvider {
   constructor(public readonly canWrite: boolean) {}
 
   async listDirectory(dirPath: string): Promise<Result<string[], Error>> {
     try {
       if (!existsSync(dirPath)) {
-        return Result.err(new Error(`Directory not found: ${dirPath}`));
+        return Result.err(notFound(`Directory not found: ${dirPath}`));
       }
 
       const entries = await fs.readdir(dirPath);
@@ -41,7 +49,7 @@ export class NodeFileSystemProvider implements FileSystemProvider {
   async readFile(filePath: string): Promise<Result<string, Error>> {
     try {
       if (!existsSync(filePath)) {
-        return Result.err(new Error(`File not found: ${filePath}`));
+        return Result.err(notFound(`File not found: ${filePath}`));
       }
 
       const content = await fs.readFile(filePath, 'utf-8');
@@ -51,6 +59,19 @@ export class NodeFileSystemProvider implements FileSystemProvider {
     }
   }
 
+  async readFileBytes(filePath: string): Promise<Result<Buffer, Error>> {
+    try {
+      if (!existsSync(filePath)) {
+        return Result.err(notFound(`File not found: ${filePath}`));
+      }
+
+      const content = await fs.readFile(filePath);
+      return Result.ok(content);
+    } catch (error) {
+      return Result.err(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
   async writeFile(filePath: string, content: string): Promise<Result<void, Error>> {
     if (!this.canWrite) {
       return Result.err(new Error('Write operations not allowed (read-only file system)'));
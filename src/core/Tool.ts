@@ -1,11 +1,81 @@
+import { ContentPart } from '../types/Message.js';
+import { Result } from '../types/Result.js';
+import { ToolOutput, ToolResult } from './ToolResult.js';
+
+/**
+ * Per-call context passed by the agent to tools
+ */
+export interface ToolContext {
+  /** Aborted when the run is cancelled; long-running tools should stop early */
+  signal?: AbortSignal;
+  /**
+   * Attach content the tool result cannot carry (e.g. images); the agent sends it
+   * to the model as a user message after the tool results of the turn
+   */
+  attach?(parts: ContentPart[]): void;
+  /** ID of the tool call being executed, e.g. to tie a confirmation to it */
+  toolCallId?: string;
+}
+
+/**
+ * Kind of system a tool acts on
+ */
+export type ToolCategory = 'filesystem' | 'shell' | 'search' | 'planning' | 'agent' | 'mcp' | 'other';
+
+/**
+ * Declarative description of what a tool does, used for policy decisions
+ * (which calls run concurrently, which tools sub-agents and planners get,
+ * which calls need the user's approval)
+ */
+export interface ToolMetadata {
+  /** Only reads state; safe to run concurrently and during planning (default: false) */
+  readOnly?: boolean;
+  /** May delete or overwrite existing data; ignored for read-only tools (default: true) */
+  destructive?: boolean;
+  /** Calls need the user's approval, which the tool asks the confirmation handler for (default: false) */
+  requiresConfirmation?: boolean;
+  /** Repeating a call with the same arguments has no additional effect (default: readOnly) */
+  idempotent?: boolean;
+  category?: ToolCategory;
+}
+
+export const ToolMetadata = {
+  /**
+   * Metadata of a tool with defaults applied
+   * Defaults are conservative: a tool that declares nothing may modify and destroy data
+   */
+  of(tool: Tool): Required<ToolMetadata> {
+    const metadata = tool.metadata ?? {};
+    const readOnly = metadata.readOnly ?? false;
+
+    return {
+      readOnly,
+      destructive: !readOnly && (metadata.destructive ?? true),
+      requiresConfirmation: metadata.requiresConfirmation ?? false,
+      idempotent: metadata.idempotent ?? readOnly,
+      category: metadata.category ?? 'other'
+    };
+  },
+
+  isReadOnly(tool: Tool): boolean {
+    return tool.metadata?.readOnly === true;
+  }
+};
+
 /**
  * Base interface for AI agent tools
  * Inspired by JetBrains Koog SimpleTool
  */
-export interface Tool<TArgs = any, TResult = string> {
+export interface Tool<TArgs = any, TResult = ToolOutput> {
   readonly name: string;
   readonly description: string;
-  execute(args: TArgs): Promise<TResult>;
+  readonly metadata?: ToolMetadata;
+  execute(args: TArgs, context?: ToolContext): Promise<TResult>;
+  /**
+   * Validate and normalize the model's arguments before execute
+   * Returns the arguments to use, or the result to give the model instead
+   */
+  parseArguments?(args: unknown): Result<TArgs, ToolResult>;
   toOpenAIFunction(): {
     name: string;
     description: string;
@@ -16,11 +86,12 @@ export interface Tool<TArgs = any, TResult = string> {
 /**
  * Abstract base class for implementing tools
  */
-export abstract class BaseTool<TArgs = any, TResult = string> implements Tool<TArgs, TResult> {
+export abstract class BaseTool<TArgs = any, TResult = ToolOutput> implements Tool<TArgs, TResult> {
   abstract readonly name: string;
   abstract readonly description: string;
+  readonly metadata: ToolMetadata = {};
 
-  abstract execute(args: TArgs): Promise<TResult>;
+  abstract execute(args: TArgs, context?: ToolContext): Promise<TResult>;
 
   /**
    * Converts this tool to OpenAI function calling format
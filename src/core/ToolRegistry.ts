@@ -0,0 +1,250 @@
+import { Tool, ToolContext } from './Tool.js';
+
+/**
+ * What happens when a tool's name is already taken by another namespace
+ * - prefix: expose the newcomer under a name prefixed with its namespace
+ * - keep-first: drop the newcomer
+ * - replace: the newcomer replaces the registered tool
+ * - error: throw a ToolCollisionError
+ */
+export type CollisionPolicy = 'prefix' | 'keep-first' | 'replace' | 'error';
+
+export const COLLISION_POLICIES: CollisionPolicy[] = ['prefix', 'keep-first', 'replace', 'error'];
+
+/**
+ * Which tools are exposed and how name collisions are resolved
+ */
+export interface ToolRegistryConfig {
+  /** Default: 'prefix' */
+  onCollision?: CollisionPolicy;
+  /** Globs; when set, only matching tools are enabled (e.g. ['fs.*', 'mcp.git.*']) */
+  enable?: string[];
+  /** Globs of tools to disable, applied after enable (e.g. ['*shell*']) */
+  disable?: string[];
+}
+
+/**
+ * Tool as registered, with where it came from
+ */
+export interface RegisteredTool {
+  /** The tool as exposed to the model (renamed if a collision was resolved by prefixing) */
+  tool: Tool;
+  /** e.g. 'fs', 'mcp.git', 'agent' */
+  namespace: string;
+  /** Namespace and the tool's own name, e.g. 'fs.read__file'; used by enable/disable globs */
+  qualifiedName: string;
+  enabled: boolean;
+  /** Why an enabled-looking tool is not exposed, e.g. a lost collision */
+  note?: string;
+}
+
+/**
+ * Two tools that wanted the same name, and how that was resolved
+ */
+export interface ToolCollision {
+  name: string;
+  /** Qualified name of the tool registered first */
+  existing: string;
+  /** Qualified name of the tool registered later */
+  incoming: string;
+  policy: CollisionPolicy;
+  /** Name the incoming tool is exposed under with the prefix policy */
+  renamedTo?: string;
+}
+
+/**
+ * Thrown when tools collide under the 'error' policy, or a prefixed name is taken too
+ */
+export class ToolCollisionError extends Error {
+  constructor(public collision: ToolCollision) {
+    super(
+      `Tool name '${collision.name}' of ${collision.incoming} is already used by ${collision.existing}` +
+      (collision.renamedTo ? ` (and so is '${collision.renamedTo}')` : '')
+    );
+    this.name = 'ToolCollisionError';
+  }
+}
+
+/** Limit of the OpenAI API for function names */
+const MAX_TOOL_NAME_LENGTH = 64;
+
+const NAMESPACE_PATTERN = /^[a-z0-9_-]+(\.[a-z0-9_-]+)*$/i;
+
+/**
+ * Tools grouped by namespace, with unique names
+ *
+ * Namespaces identify where a tool came from (fs, shell, mcp.<server>, agent). They
+ * are used for listing and for the enable/disable globs only: the model still sees
+ * the tool's own name, because function names in the API cannot contain dots.
+ */
+export class ToolRegistry {
+  private readonly entries: RegisteredTool[] = [];
+  private readonly byName = new Map<string, RegisteredTool>();
+  private readonly collisionLog: ToolCollision[] = [];
+  private readonly policy: CollisionPolicy;
+  private readonly enable: RegExp[];
+  private readonly disable: RegExp[];
+
+  constructor(config: ToolRegistryConfig = {}) {
+    this.policy = config.onCollision ?? 'prefix';
+    this.enable = (config.enable ?? []).map(globToRegExp);
+    this.disable = (config.disable ?? []).map(globToRegExp);
+  }
+
+  /**
+   * Add tools under a namespace
+   * Disabled tools are listed but never take part in collisions
+   */
+  register(namespace: string, tools: Tool[]): this {
+    if (!NAMESPACE_PATTERN.test(namespace)) {
+      throw new Error(`Invalid tool namespace '${namespace}' (use letters, digits, '_' and '-', separated by dots)`);
+    }
+
+    for (const tool of tools) {
+      const entry: RegisteredTool = {
+        tool,
+        namespace,
+        qualifiedName: `${namespace}.${tool.name}`,
+        enabled: false
+      };
+      this.entries.push(entry);
+
+      if (!this.isEnabled(entry)) {
+        entry.note = 'disabled by configuration';
+        continue;
+      }
+
+      const existing = this.byName.get(tool.name);
+      if (!existing) {
+        entry.enabled = true;
+        this.byName.set(tool.name, entry);
+      } else {
+        this.resolveCollision(existing, entry);
+      }
+    }
+
+    return this;
+  }
+
+  /**
+   * Enabled tools in registration order
+   */
+  tools(): Tool[] {
+    return this.entries.filter((entry) => entry.enabled).map((entry) => entry.tool);
+  }
+
+  /**
+   * All registered tools, including disabled ones
+   */
+  list(): RegisteredTool[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Enabled tool exposed under a name
+   */
+  get(name: string): Tool | undefined {
+    return this.byName.get(name)?.tool;
+  }
+
+  get collisions(): ToolCollision[] {
+    return [...this.collisionLog];
+  }
+
+  private isEnabled(entry: RegisteredTool): boolean {
+    const matches = (pattern: RegExp) => pattern.test(entry.qualifiedName) || pattern.test(entry.tool.name);
+
+    if (this.enable.length > 0 && !this.enable.some(matches)) {
+      return false;
+    }
+    return !this.disable.some(matches);
+  }
+
+  private resolveCollision(existing: RegisteredTool, incoming: RegisteredTool): void {
+    const collision: ToolCollision = {
+      name: incoming.tool.name,
+      existing: existing.qualifiedName,
+      incoming: incoming.qualifiedName,
+      policy: this.policy
+    };
+
+    switch (this.policy) {
+      case 'error':
+        throw new ToolCollisionError(collision);
+
+      case 'keep-first':
+        incoming.note = `name taken by ${existing.qualifiedName}`;
+        break;
+
+      case 'replace':
+        existing.enabled = false;
+        existing.note = `replaced by ${incoming.qualifiedName}`;
+        incoming.enabled = true;
+        this.byName.set(incoming.tool.name, incoming);
+        break;
+
+      case 'prefix': {
+        const renamed = prefixedName(incoming.namespace, incoming.tool.name);
+        collision.renamedTo = renamed;
+        if (this.byName.has(renamed)) {
+          throw new ToolCollisionError(collision);
+        }
+        incoming.tool = new RenamedTool(incoming.tool, renamed);
+        incoming.enabled = true;
+        incoming.note = `renamed, '${collision.name}' is used by ${existing.qualifiedName}`;
+        this.byName.set(renamed, incoming);
+        break;
+      }
+    }
+
+    this.collisionLog.push(collision);
+  }
+}
+
+/**
+ * Exposes a tool under another name; everything else is delegated
+ */
+class RenamedTool implements Tool {
+  constructor(
+    private readonly inner: Tool,
+    readonly name: string
+  ) {}
+
+  get description() {
+    return this.inner.description;
+  }
+
+  get metadata() {
+    return this.inner.metadata;
+  }
+
+  get parseArguments() {
+    return this.inner.parseArguments?.bind(this.inner);
+  }
+
+  execute(args: Parameters<Tool['execute']>[0], context?: ToolContext) {
+    return this.inner.execute(args, context);
+  }
+
+  toOpenAIFunction() {
+    return { ...this.inner.toOpenAIFunction(), name: this.name };
+  }
+}
+
+/**
+ * API-safe name for a tool whose name is taken, e.g. 'mcp_git__read__file'
+ */
+function prefixedName(namespace: string, name: string): string {
+  return `${namespace.replace(/[^a-zA-Z0-9_-]/g, '_')}__${name}`.substring(0, MAX_TOOL_NAME_LENGTH);
+}
+
+/**
+ * Glob where '*' matches any characters (dots included) and '?' matches one
+ */
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split('')
+    .map((char) => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${pattern}$`, 'i');
+}
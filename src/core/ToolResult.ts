@@ -0,0 +1,123 @@
+/**
+ * How a tool call ended
+ * - ok: the tool did what was asked
+ * - error: the call failed; `error.code` says why (also set for timeouts)
+ * - rejected: the user or a policy declined the call
+ * - timeout: the call did not finish in time
+ */
+export type ToolResultStatus = 'ok' | 'error' | 'rejected' | 'timeout';
+
+/**
+ * Machine-readable reason of a failed call
+ */
+export type ToolErrorCode =
+  | 'invalid_arguments'
+  | 'unknown_tool'
+  | 'not_found'
+  | 'read_only'
+  | 'unsupported'
+  | 'too_large'
+  | 'anchor_not_found'
+  | 'anchor_ambiguous'
+  | 'io_error'
+  | 'command_failed'
+  | 'timed_out'
+  | 'rate_limited'
+  | 'cancelled'
+  | 'confirmation_failed'
+  | 'hook_failed'
+  | 'tool_failed';
+
+export interface ToolError {
+  code: ToolErrorCode;
+  /** What the model should try instead */
+  suggestion?: string;
+}
+
+/**
+ * Outcome of a tool call
+ * `content` is what the model reads; `data` is for hooks, transcripts and tests.
+ */
+export interface ToolResult<TData = unknown> {
+  status: ToolResultStatus;
+  content: string;
+  data?: TData;
+  error?: ToolError;
+}
+
+/**
+ * What a tool's execute may return
+ * Plain strings follow the older convention and are read with ToolResult.from
+ */
+export type ToolOutput = string | ToolResult;
+
+const PREFIXES: Record<Exclude<ToolResultStatus, 'ok'>, string> = {
+  error: 'ERROR:',
+  rejected: 'REJECTED:',
+  timeout: 'TIMEOUT:'
+};
+
+export const ToolResult = {
+  ok<TData>(content: string, data?: TData): ToolResult<TData> {
+    return { status: 'ok', content, data };
+  },
+
+  error<TData>(
+    code: ToolErrorCode,
+    content: string,
+    options: { suggestion?: string; data?: TData } = {}
+  ): ToolResult<TData> {
+    return { status: 'error', content, data: options.data, error: { code, suggestion: options.suggestion } };
+  },
+
+  rejected<TData>(content: string, data?: TData): ToolResult<TData> {
+    return { status: 'rejected', content, data };
+  },
+
+  timeout<TData>(content: string, options: { suggestion?: string; data?: TData } = {}): ToolResult<TData> {
+    return { status: 'timeout', content, data: options.data, error: { code: 'timed_out', suggestion: options.suggestion } };
+  },
+
+  isOk(result: ToolResult): boolean {
+    return result.status === 'ok';
+  },
+
+  /**
+   * Failed or timed out; rejections are a decision, not an error
+   */
+  isError(result: ToolResult): boolean {
+    return result.status === 'error' || result.status === 'timeout';
+  },
+
+  /**
+   * Text sent to the model
+   * Failures keep the ERROR:/REJECTED:/TIMEOUT: prefixes the system prompts refer to
+   */
+  format(result: ToolResult): string {
+    const suggestion = result.error?.suggestion ? `\n\nSuggestion: ${result.error.suggestion}` : '';
+
+    return result.status === 'ok'
+      ? result.content + suggestion
+      : `${PREFIXES[result.status]} ${result.content}${suggestion}`;
+  },
+
+  /**
+   * Normalize a tool's output; strings are classified by their prefix
+   */
+  from(output: ToolOutput): ToolResult {
+    if (typeof output !== 'string') {
+      return output;
+    }
+
+    for (const [status, prefix] of Object.entries(PREFIXES) as [ToolResultStatus, string][]) {
+      if (output.startsWith(prefix)) {
+        const content = output.slice(prefix.length).trimStart();
+        return status === 'error'
+          ? ToolResult.error('tool_failed', content)
+          : status === 'timeout' ? ToolResult.timeout(content) : ToolResult.rejected(content);
+      }
+    }
+
+    return ToolResult.ok(output);
+  }
+};
@@ -0,0 +1,117 @@
+import { z, ZodIssue, ZodTypeAny } from 'zod';
+import { BaseTool } from './Tool.js';
+import { JsonSchema } from '../schema/JsonSchema.js';
+import { Result } from '../types/Result.js';
+import { ToolOutput, ToolResult } from './ToolResult.js';
+
+/**
+ * Base class for tools whose parameters are defined by a zod object schema
+ *
+ * The JSON Schema sent to the model is generated from the zod schema, and the
+ * agent validates arguments through parseArguments before calling execute, so
+ * execute always receives well-typed arguments (with defaults applied).
+ * Common model mistakes are coerced instead of rejected: numbers and booleans sent
+ * as strings, and null for fields that may be omitted.
+ */
+export abstract class ZodTool<TSchema extends ZodTypeAny, TResult = ToolOutput> extends BaseTool<z.output<TSchema>, TResult> {
+  abstract readonly schema: TSchema;
+
+  parseArguments(args: unknown): Result<z.output<TSchema>, ToolResult> {
+    let parsed = this.schema.safeParse(args);
+
+    if (!parsed.success) {
+      const coerced = coerce(args, parsed.error.issues);
+      if (coerced !== args) {
+        parsed = this.schema.safeParse(coerced);
+      }
+    }
+
+    if (!parsed.success) {
+      return Result.err(ToolResult.error(
+        'invalid_arguments',
+        `Invalid arguments for '${this.name}':\n${JsonSchema.formatIssues(parsed.error)}`,
+        { suggestion: 'Fix the arguments and call the tool again.' }
+      ));
+    }
+
+    return Result.ok(parsed.data);
+  }
+
+  protected getParametersSchema(): Record<string, any> {
+    if (!JsonSchema.isObject(this.schema)) {
+      throw new Error(`Tool '${this.name}' must define its parameters as a zod object schema`);
+    }
+    return JsonSchema.fromZod(this.schema);
+  }
+}
+
+/**
+ * Repair the values behind type errors where the intent is unambiguous
+ * Returns the original value when nothing could be repaired
+ */
+function coerce(args: unknown, issues: ZodIssue[]): unknown {
+  let result = args;
+
+  for (const issue of issues) {
+    if (issue.code !== 'invalid_type' || issue.path.length === 0) {
+      continue;
+    }
+
+    const value = valueAt(result, issue.path);
+    let repaired: { value: unknown } | null = null;
+
+    if (issue.received === 'null') {
+      // Models often send null for optional fields; omitting them lets defaults apply
+      repaired = { value: undefined };
+    } else if (typeof value === 'string' && (issue.expected === 'number' || issue.expected === 'integer')) {
+      const number = Number(value.trim());
+      repaired = value.trim() !== '' && Number.isFinite(number) ? { value: number } : null;
+    } else if (typeof value === 'string' && issue.expected === 'boolean') {
+      const normalized = value.trim().toLowerCase();
+      repaired = normalized === 'true' || normalized === 'false' ? { value: normalized === 'true' } : null;
+    }
+
+    if (repaired) {
+      result = withValueAt(result, issue.path, repaired.value);
+    }
+  }
+
+  return result;
+}
+
+function valueAt(value: unknown, path: (string | number)[]): unknown {
+  return path.reduce<unknown>(
+    (current, key) => (current !== null && typeof current === 'object' ? (current as Record<string | number, unknown>)[key] : undefined),
+    value
+  );
+}
+
+/**
+ * Copy of `value` with the entry at `path` replaced (undefined removes an object key)
+ */
+function withValueAt(value: unknown, path: (string | number)[], replacement: unknown): unknown {
+  if (path.length === 0) {
+    return replacement;
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  const [key, ...rest] = path;
+
+  if (Array.isArray(value)) {
+    const copy: unknown[] = [...value];
+    copy[Number(key)] = withValueAt(copy[Number(key)], rest, replacement);
+    return copy;
+  }
+
+  const copy: Record<string | number, unknown> = { ...value };
+  const updated = withValueAt(copy[key], rest, replacement);
+
+  if (updated === undefined) {
+    delete copy[key];
+  } else {
+    copy[key] = updated;
+  }
+  return copy;
+}
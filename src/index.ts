@@ -1,11 +1,13 @@
 #!/usr/bin/env node
 
 import dotenv from 'dotenv';
-import { AIAgent } from './agent/AIAgent.js';
-import { Tool } from './core/Tool.js';
-import { FileSystem } from './core/FileSystemProvider.js';
+import { AIAgent, AgentAbortedError, StopReason } from './agent/AIAgent.js';
+import { Tool, ToolMetadata } from './core/Tool.js';
+import { COLLISION_POLICIES, CollisionPolicy, ToolCollision, ToolRegistry, ToolRegistryConfig } from './core/ToolRegistry.js';
+import { FileSystem, FileSystemProvider } from './core/FileSystemProvider.js';
 import {
   BraveConfirmationHandler,
+  ConfirmationHandler,
   SafeConfirmationHandler
 } from './config/ConfirmationHandler.js';
 import { InteractiveConfirmationHandler } from './config/InteractiveConfirmationHandler.js';
@@ -13,39 +15,538 @@ import {
   ListDirectoryTool,
   ReadFileTool,
   CreateFileTool,
-  EditFileTool
+  EditFileTool,
+  ApplyEditTool
 } from './tools/FileSystemTools.js';
 import { ExecuteShellCommandTool } from './tools/ShellCommandTool.js';
 import { McpToolDiscovery } from './mcp/McpToolDiscovery.js';
 import { createCodeSearchAgentTool } from './subagents/CodeSearchAgentTool.js';
+import { ProviderFactory } from './providers/ProviderFactory.js';
+import { Session, SessionStore, LoadedSession } from './session/SessionStore.js';
+import { UsageTracker, BudgetExceededError } from './usage/UsageTracker.js';
+import { PricingTable } from './usage/Pricing.js';
+import { PluginLoader } from './plugins/PluginLoader.js';
+import { AgentHooks } from './agent/AgentHooks.js';
+import { Telemetry } from './telemetry/Telemetry.js';
+import { Cassette } from './cassette/Cassette.js';
+import { Plan } from './plan/Plan.js';
+import { Planner, PlannerOptions } from './plan/Planner.js';
+import { PlanReview } from './plan/PlanReview.js';
+import { PlanTracker } from './plan/PlanTracker.js';
+import { ChatRepl } from './repl/ChatRepl.js';
+import { Verifier, VerificationReport } from './agent/Verifier.js';
+import { ToolPolicy, ToolPolicyConfig } from './agent/ToolPolicy.js';
+import { Transcript } from './transcript/Transcript.js';
+import { RecordingConfirmationHandler } from './transcript/RecordingConfirmationHandler.js';
+import { ModelProvider } from './providers/ModelProvider.js';
+import { RecordingProvider } from './providers/RecordingProvider.js';
+import { ReplayProvider } from './providers/ReplayProvider.js';
+import { HttpMcpTransport, McpTransport, RecordingMcpTransport, ReplayMcpTransport } from './mcp/McpTransport.js';
+import { readFileSync } from 'fs';
 import chalk from 'chalk';
 
+const USAGE = `Usage:
+  typescript-ai-agent <project-path> <task> [--brave] [--interactive] [--plan] [--user <userId>]
+                      [--max-cost <usd>] [--max-tokens <n>] [--plugin <module>]...
+                      [--record <cassette.json> | --replay <cassette.json>]
+                      [--transcript <file.md|file.html>] [--verify <command>]...
+  typescript-ai-agent <project-path> [task] --chat [options]
+  typescript-ai-agent --resume <sessionId> [follow-up task] [options]
+  typescript-ai-agent sessions list
+  typescript-ai-agent tools`;
+
 /**
- * Parse command line arguments
+ * Flags that take a value
+ */
+const VALUE_FLAGS = ['--user', '--resume', '--max-cost', '--max-tokens', '--plugin', '--record', '--replay', '--transcript', '--verify'];
+
+/**
+ * Parsed command line
  */
-function parseArgs(): {
+interface CliArgs {
+  command: 'run' | 'sessions-list' | 'tools-list';
   projectPath: string;
   task: string;
   brave: boolean;
   interactive: boolean;
+  plan: boolean;
+  /** Multi-turn REPL instead of a single run */
+  chat: boolean;
   userId?: string;
-} {
+  resume?: string;
+  maxCost?: number;
+  maxTokens?: number;
+  plugins: string[];
+  /** Commands that must pass before the agent may finish */
+  verify: string[];
+  record?: string;
+  replay?: string;
+  /** Markdown or HTML transcript written when the run ends */
+  transcript?: string;
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseArgs(): CliArgs {
   const args = process.argv.slice(2);
 
-  if (args.length < 2) {
-    console.error('Usage: typescript-ai-agent <project-path> <task> [--brave] [--interactive] [--user <userId>]');
-    process.exit(1);
+  const flagValue = (flag: string): string | undefined => {
+    const index = args.indexOf(flag);
+    return index !== -1 && args[index + 1] ? args[index + 1] : undefined;
+  };
+
+  // Repeatable flags, e.g. --plugin a.js --plugin b.js
+  const flagValues = (flag: string): string[] =>
+    args.flatMap((arg, index) => (arg === flag && args[index + 1] ? [args[index + 1]] : []));
+
+  // Positional arguments are everything that is not a flag or a flag's value
+  const positionals: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (VALUE_FLAGS.includes(args[i])) {
+      i++;
+    } else if (!args[i].startsWith('--')) {
+      positionals.push(args[i]);
+    }
   }
 
-  const projectPath = args[0];
-  const task = args[1];
   const brave = args.includes('--brave');
   const interactive = args.includes('--interactive');
+  const plan = args.includes('--plan');
+  const chat = args.includes('--chat');
+  if (plan && chat) {
+    console.error(chalk.red('ERROR: --plan cannot be combined with --chat'));
+    process.exit(1);
+  }
+  const userId = flagValue('--user');
+  const resume = flagValue('--resume');
+  const maxCost = parseNumberFlag('--max-cost', flagValue('--max-cost'));
+  const maxTokens = parseNumberFlag('--max-tokens', flagValue('--max-tokens'));
+  const plugins = [
+    ...(process.env.AGENT_PLUGINS || '').split(',').map((p) => p.trim()).filter((p) => p.length > 0),
+    ...flagValues('--plugin')
+  ];
+  const record = flagValue('--record');
+  const replay = flagValue('--replay');
+  if (record && replay) {
+    console.error(chalk.red('ERROR: --record and --replay cannot be combined'));
+    process.exit(1);
+  }
+  const transcript = flagValue('--transcript');
+  const verify = [
+    ...(process.env.AGENT_VERIFY_COMMANDS || '').split(',').map((c) => c.trim()).filter((c) => c.length > 0),
+    ...flagValues('--verify')
+  ];
+  const runOptions = { maxCost, maxTokens, plugins, record, replay, transcript, verify };
+
+  if (positionals[0] === 'sessions') {
+    if (positionals[1] !== 'list') {
+      console.error(USAGE);
+      process.exit(1);
+    }
+    return { command: 'sessions-list', projectPath: '', task: '', brave, interactive, plan, chat, plugins, verify };
+  }
+
+  if (positionals[0] === 'tools' && positionals.length <= 2 && (positionals[1] ?? 'list') === 'list') {
+    return { command: 'tools-list', projectPath: '', task: '', brave, interactive, plan, chat, plugins, verify };
+  }
+
+  if (resume) {
+    if (plan) {
+      console.error(chalk.red('ERROR: --plan cannot be combined with --resume'));
+      process.exit(1);
+    }
+    // Project path and task come from the stored session, an extra positional is a follow-up
+    return { command: 'run', projectPath: '', task: positionals[0] ?? '', brave, interactive, plan, chat, userId, resume, ...runOptions };
+  }
+
+  // A project path without a task opens the chat REPL
+  if (positionals.length === 1 && !plan) {
+    return { command: 'run', projectPath: positionals[0], task: '', brave, interactive, plan, chat: true, userId, ...runOptions };
+  }
+
+  if (positionals.length < 2) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  return { command: 'run', projectPath: positionals[0], task: positionals[1], brave, interactive, plan, chat, userId, ...runOptions };
+}
+
+/**
+ * Parse a positive numeric flag value, exiting with usage on bad input
+ */
+function parseNumberFlag(flag: string, value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    console.error(chalk.red(`ERROR: ${flag} expects a positive number, got '${value}'`));
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  return parsed;
+}
+
+/**
+ * Multi-turn conversation on one agent until the user exits with Ctrl-D or /exit
+ */
+async function runChat(options: {
+  agent: AIAgent;
+  session: Session;
+  usage: UsageTracker;
+  projectPath: string;
+  initialInput: string;
+  newConversation: boolean;
+  writeTranscript: () => Promise<void>;
+}): Promise<void> {
+  const { agent, session, usage, projectPath } = options;
+  let stoppedByBudget = false;
+
+  const repl = new ChatRepl(agent, {
+    // The first message of a new conversation carries the project context like a single run
+    formatInput: (input, turn) =>
+      turn === 0 && options.newConversation ? `Project path: ${projectPath}\n\nTask: ${input}` : input,
+    onError: (error) => {
+      if (error instanceof BudgetExceededError) {
+        console.log(chalk.yellow(`\n⏹  Budget exceeded - ${error.message}`));
+        session.recordStatus('interrupted', error.message);
+        stoppedByBudget = true;
+        return false;
+      }
+      console.error(chalk.red(`\nERROR: ${error instanceof Error ? error.message : String(error)}`));
+      return true;
+    }
+  });
+
+  try {
+    await repl.start(options.initialInput || undefined);
+    if (!stoppedByBudget) {
+      session.recordStatus('completed');
+    }
+    console.log('');
+    printUsageReport(usage);
+    console.log(chalk.gray(`Conversation saved. Continue with: --resume ${session.id} --chat`));
+  } finally {
+    await options.writeTranscript();
+    await agent.close();
+    await Telemetry.shutdown();
+  }
+}
+
+/**
+ * Draft a plan and get it approved
+ * Returns null when the user rejects the plan
+ */
+async function preparePlan(options: {
+  projectPath: string;
+  task: string;
+  brave: boolean;
+  planner: PlannerOptions;
+}): Promise<PlanTracker | null> {
+  console.log(chalk.cyan('[Plan] Exploring the project to draft a plan...\n'));
+
+  let plan: Plan;
+  try {
+    plan = await Planner.createPlan(options.projectPath, options.task, options.planner);
+  } catch (error) {
+    console.error(chalk.red(`ERROR: Planning failed: ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(1);
+  }
+
+  const review = new PlanReview();
+  let approved: Plan | null;
+  if (options.brave) {
+    review.print(plan, 'Plan (auto-approved in brave mode)');
+    approved = plan;
+  } else {
+    approved = await review.review(plan);
+  }
+
+  if (!approved) {
+    return null;
+  }
+
+  return new PlanTracker(approved, {
+    approver: async (proposed, _current, reason) => {
+      console.log(chalk.yellow(`\n⚠️  The agent wants to deviate from the plan: ${reason}`));
+      if (options.brave) {
+        review.print(proposed, 'Revised plan (auto-approved in brave mode)');
+        return proposed;
+      }
+      return review.review(proposed, 'Revised plan');
+    }
+  });
+}
+
+/**
+ * Print the final state of the plan, flagging steps that were not completed
+ */
+function printPlanReport(plan: Plan): void {
+  console.log(chalk.cyan('Plan:'));
+  console.log(Plan.format(plan));
 
-  const userIndex = args.indexOf('--user');
-  const userId = userIndex !== -1 && args[userIndex + 1] ? args[userIndex + 1] : undefined;
+  const unfinished = Plan.unfinished(plan);
+  if (unfinished.length > 0) {
+    console.log(chalk.yellow(`⚠️  ${unfinished.length} step(s) not completed: ${unfinished.map((s) => s.number).join(', ')}`));
+  }
+  console.log('');
+}
 
-  return { projectPath, task, brave, interactive, userId };
+/**
+ * Print the outcome of the last verification round
+ */
+function printVerificationReport(report: VerificationReport): void {
+  const color = report.passed ? chalk.green : chalk.red;
+  console.log(color(`${report.passed ? '✅' : '❌'} Verification ${Verifier.summarize(report)}`));
+  console.log('');
+}
+
+/**
+ * Record a live provider's completions when --record is set
+ */
+function withRecording(provider: ModelProvider, cassette: Cassette | null): ModelProvider {
+  return cassette ? new RecordingProvider(provider, cassette) : provider;
+}
+
+/**
+ * Load custom pricing from AGENT_PRICING_FILE (JSON: { "model": { "inputPerMillion": n, "outputPerMillion": n } })
+ */
+function loadPricing(): PricingTable | undefined {
+  const pricingFile = process.env.AGENT_PRICING_FILE;
+  if (!pricingFile) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(readFileSync(pricingFile, 'utf-8'));
+  } catch (error) {
+    console.error(chalk.red(`ERROR: Failed to load pricing from ${pricingFile}: ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(1);
+  }
+}
+
+/**
+ * Tool execution limits from AGENT_TOOL_TIMEOUT, AGENT_TOOL_MAX_OUTPUT and AGENT_TOOL_POLICY_FILE
+ * (JSON: { "defaults": { ... }, "tools": { "name": { "timeoutSeconds": n, "maxCallsPerRun": n, ... } } })
+ * When the user is prompted, tools that ask for confirmation get no timeout: the prompt runs inside the call
+ */
+function toolPolicyFromEnv(tools: Tool[], options: { prompts: boolean }): ToolPolicyConfig {
+  const defaults: ToolPolicy = {
+    timeoutSeconds: Number(process.env.AGENT_TOOL_TIMEOUT) || 120,
+    maxOutputChars: Number(process.env.AGENT_TOOL_MAX_OUTPUT) || 50_000
+  };
+  const overrides: Record<string, ToolPolicy> = {
+    // Commands have their own timeout of up to 600 seconds
+    execute__shell_command: { timeoutSeconds: 660 },
+    __find_in_codebase_agent__: { timeoutSeconds: 600 },
+    // Plan changes are reviewed by the user in every mode but brave
+    propose_plan_change: { timeoutSeconds: 0 }
+  };
+
+  if (options.prompts) {
+    for (const tool of tools.filter((tool) => ToolMetadata.of(tool).requiresConfirmation)) {
+      overrides[tool.name] = { ...overrides[tool.name], timeoutSeconds: 0 };
+    }
+  }
+
+  const policyFile = process.env.AGENT_TOOL_POLICY_FILE;
+  if (!policyFile) {
+    return { defaults, tools: overrides };
+  }
+
+  try {
+    const custom: ToolPolicyConfig = JSON.parse(readFileSync(policyFile, 'utf-8'));
+    for (const [name, policy] of Object.entries(custom.tools ?? {})) {
+      overrides[name] = { ...overrides[name], ...policy };
+    }
+    return { defaults: { ...defaults, ...custom.defaults }, tools: overrides };
+  } catch (error) {
+    console.error(chalk.red(`ERROR: Failed to load tool policy from ${policyFile}: ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(1);
+  }
+}
+
+/**
+ * Print the usage breakdown across the main agent and sub-agents
+ */
+function printUsageReport(usage: UsageTracker): void {
+  console.log(chalk.cyan('Usage:'));
+  console.log(chalk.gray(usage.formatReport()));
+  console.log('');
+}
+
+/**
+ * Print stored sessions
+ */
+async function listSessions(store: SessionStore): Promise<void> {
+  const sessions = await store.list();
+
+  if (sessions.length === 0) {
+    console.log(chalk.gray(`No sessions found in ${store.directory}`));
+    return;
+  }
+
+  console.log(chalk.cyan(`Sessions in ${store.directory}:`));
+  console.log('');
+  for (const { metadata, status, messageCount, updatedAt } of sessions) {
+    const statusColor = status === 'completed' ? chalk.green : status === 'running' ? chalk.yellow : chalk.red;
+    const task = metadata.task.length > 60 ? metadata.task.substring(0, 57) + '...' : metadata.task;
+    console.log(`${chalk.bold(metadata.id)}  ${statusColor(status)}`);
+    console.log(chalk.gray(`  Project: ${metadata.projectPath}`));
+    console.log(chalk.gray(`  Task: ${task}`));
+    console.log(chalk.gray(`  Model: ${metadata.model} | Messages: ${messageCount} | Updated: ${updatedAt}`));
+  }
+}
+
+/**
+ * URL of the MCP server, MCP_SERVER_URL with the /mcp endpoint
+ */
+function mcpServerUrlFromEnv(): string {
+  const mcpBaseUrl = process.env.MCP_SERVER_URL || 'http://localhost:8080';
+  return mcpBaseUrl.endsWith('/mcp') ? mcpBaseUrl : `${mcpBaseUrl}/mcp`;
+}
+
+/**
+ * Tool enable/disable globs and collision policy, exiting on an unknown policy
+ */
+function toolRegistryConfigFromEnv(): ToolRegistryConfig {
+  const globs = (value: string | undefined) =>
+    (value || '').split(',').map((glob) => glob.trim()).filter((glob) => glob.length > 0);
+
+  const onCollision = process.env.AGENT_TOOL_COLLISIONS as CollisionPolicy | undefined;
+  if (onCollision !== undefined && !COLLISION_POLICIES.includes(onCollision)) {
+    console.error(chalk.red(`ERROR: AGENT_TOOL_COLLISIONS must be one of ${COLLISION_POLICIES.join(', ')}, got '${onCollision}'`));
+    process.exit(1);
+  }
+
+  return {
+    onCollision,
+    enable: globs(process.env.AGENT_TOOLS_ENABLE),
+    disable: globs(process.env.AGENT_TOOLS_DISABLE)
+  };
+}
+
+/**
+ * Register the native, MCP and sub-agent tools
+ * Namespaces: fs, shell, mcp.<server> and agent
+ */
+async function registerTools(
+  registry: ToolRegistry,
+  options: {
+    fileSystem: FileSystemProvider;
+    shellTool: ExecuteShellCommandTool;
+    confirmationHandler: ConfirmationHandler;
+    mcp: { serverUrl: string; transport?: McpTransport };
+    /** Without a provider the code search sub-agent is left out */
+    codeSearch: { provider: ModelProvider | null; model?: string; usage?: UsageTracker; hooks?: AgentHooks[]; projectPath: string };
+  }
+): Promise<void> {
+  const { fileSystem, confirmationHandler, codeSearch } = options;
+  // Text-only models reject image content; AGENT_IMAGE_INPUT=false reads images as errors instead
+  const images = process.env.AGENT_IMAGE_INPUT !== 'false';
+
+  registry.register('fs', [
+    new ListDirectoryTool(fileSystem),
+    new ReadFileTool(fileSystem, { images }),
+    new CreateFileTool(fileSystem, confirmationHandler),
+    new EditFileTool(fileSystem, confirmationHandler),
+    new ApplyEditTool(fileSystem, confirmationHandler)
+  ]);
+  registry.register('shell', [options.shellTool]);
+
+  // Discover MCP tools
+  console.log(chalk.gray(`[MCP] Checking server at ${options.mcp.serverUrl}...`));
+  const mcpTools = await McpToolDiscovery.discoverTools(options.mcp.serverUrl, false, options.mcp.transport, confirmationHandler);
+
+  let mcpNamespace: string | null = null;
+  if (mcpTools.length > 0) {
+    mcpNamespace = `mcp.${mcpTools[0].server.toLowerCase().replace(/[^a-z0-9_-]+/g, '-') || 'server'}`;
+    console.log(chalk.green(`[MCP] Discovered ${mcpTools.length} tools (${mcpNamespace}): ${mcpTools.map(t => t.name).join(', ')}`));
+    registry.register(mcpNamespace, mcpTools);
+  } else {
+    console.log(chalk.yellow('[MCP] No MCP server available - using file system tools only'));
+  }
+
+  // Add code search sub-agent, which may use the enabled MCP tools that are read-only
+  if (codeSearch.provider) {
+    const additionalTools = registry.list()
+      .filter((entry) => entry.namespace === mcpNamespace && entry.enabled)
+      .map((entry) => entry.tool);
+    registry.register('agent', [
+      createCodeSearchAgentTool(
+        codeSearch.provider,
+        fileSystem,
+        codeSearch.projectPath,
+        { model: codeSearch.model, usage: codeSearch.usage, hooks: codeSearch.hooks, additionalTools, images }
+      )
+    ]);
+  }
+}
+
+/**
+ * One-line description of a resolved tool name collision
+ */
+function describeCollision(collision: ToolCollision): string {
+  switch (collision.policy) {
+    case 'prefix':
+      return `'${collision.name}' of ${collision.incoming} is exposed as '${collision.renamedTo}' (name used by ${collision.existing})`;
+    case 'keep-first':
+      return `'${collision.name}' of ${collision.incoming} is hidden by ${collision.existing}`;
+    default:
+      return `'${collision.name}' of ${collision.existing} is replaced by ${collision.incoming}`;
+  }
+}
+
+/**
+ * Print all tools with their namespace, capabilities and whether they are enabled
+ */
+async function listTools(): Promise<void> {
+  const registry = new ToolRegistry(toolRegistryConfigFromEnv());
+  const confirmationHandler = new SafeConfirmationHandler();
+  const codeSearchProvider = ProviderFactory.fromEnv('CODE_SEARCH') ?? ProviderFactory.fromEnv('OPENAI');
+
+  await registerTools(registry, {
+    fileSystem: FileSystem.readWrite,
+    shellTool: new ExecuteShellCommandTool(confirmationHandler),
+    confirmationHandler,
+    mcp: { serverUrl: mcpServerUrlFromEnv() },
+    codeSearch: { provider: codeSearchProvider, model: process.env.CODE_SEARCH_MODEL, projectPath: process.cwd() }
+  });
+
+  const entries = registry.list();
+  const enabled = entries.filter((entry) => entry.enabled).length;
+  const width = Math.max(...entries.map((entry) => entry.tool.name.length));
+
+  console.log('');
+  console.log(chalk.cyan(`Tools (${enabled} enabled, ${entries.length - enabled} disabled):`));
+  let namespace: string | null = null;
+  for (const entry of entries) {
+    if (entry.namespace !== namespace) {
+      namespace = entry.namespace;
+      console.log('');
+      console.log(chalk.bold(namespace));
+    }
+
+    const metadata = ToolMetadata.of(entry.tool);
+    const traits = [
+      metadata.readOnly ? 'read-only' : metadata.destructive ? 'destructive' : 'modifies',
+      metadata.requiresConfirmation ? 'confirms' : null
+    ].filter(Boolean).join(', ');
+    const line = `  ${entry.enabled ? '✓' : '✗'} ${entry.tool.name.padEnd(width)}  ${traits}`;
+
+    console.log(entry.enabled ? line : chalk.gray(line));
+    if (entry.note) {
+      console.log(chalk.gray(`      ${entry.note}`));
+    }
+  }
+
+  if (!codeSearchProvider) {
+    console.log(chalk.gray('\nThe code search sub-agent is not listed: OPENAI_API_KEY is not set'));
+  }
 }
 
 /**
@@ -62,7 +563,8 @@ File System Tools:
 - list__directory: List files and directories to explore project structure
 - read__file: Read file contents to understand existing code
 - create__file: Create NEW files only (use edit__file for existing files)
-- edit__file: Edit EXISTING files only (always read the file first)
+- edit__file: Edit EXISTING files only by rewriting them (always read the file first)
+- apply_edit: Change part of an EXISTING file with exact search/replace blocks or a unified diff (preferred for large files)
 - execute__shell_command: Run builds, tests, and other commands (with timeout support)
 
 Code Search:
@@ -74,7 +576,7 @@ Code Search:
 2. EXPLORE: Use list__directory when you know what you're looking for
 3. UNDERSTAND: Read relevant files to understand the current state
 4. PLAN: Think through the changes needed
-5. IMPLEMENT: Use create__file for new files, edit__file for existing files
+5. IMPLEMENT: Use create__file for new files, apply_edit or edit__file for existing files
 6. BUILD/TEST: Use execute__shell_command to run builds and tests
 7. VERIFY: Read files after changes to confirm success
 8. REPORT: Provide a clear summary of what was done
@@ -83,7 +585,7 @@ Code Search:
 
 - Be strategic about file reads - only read what you need
 - ALWAYS read a file before editing it to understand current content
-- Use appropriate tools: create__file for NEW files, edit__file for EXISTING files
+- Use appropriate tools: create__file for NEW files, apply_edit or edit__file for EXISTING files
 - Validate paths before operations
 - Set appropriate timeouts for commands (default: 30s, max: 600s)
 - Provide helpful, actionable error messages
@@ -108,35 +610,138 @@ async function main() {
   // Load environment variables
   dotenv.config();
 
-  const openaiApiKey = process.env.OPENAI_API_KEY;
-  if (!openaiApiKey) {
-    console.error(chalk.red('ERROR: OPENAI_API_KEY environment variable not set'));
-    console.error('Please set it in your .env file or environment');
+  // Parse arguments
+  const args = parseArgs();
+  const { brave, interactive, userId } = args;
+  const sessionStore = new SessionStore();
+
+  if (args.command === 'sessions-list') {
+    await listSessions(sessionStore);
+    return;
+  }
+
+  if (args.command === 'tools-list') {
+    try {
+      await listTools();
+    } catch (error) {
+      console.error(chalk.red(`ERROR: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+    return;
+  }
+
+  // Tracing is configured through the standard OTEL_* variables
+  let traceExporters: string[];
+  try {
+    traceExporters = Telemetry.start();
+  } catch (error) {
+    console.error(chalk.red(`ERROR: ${error instanceof Error ? error.message : String(error)}`));
     process.exit(1);
   }
 
-  // Parse arguments
-  const { projectPath, task, brave, interactive, userId } = parseArgs();
+  // --replay serves recorded completions and MCP responses, --record captures them
+  let cassette: Cassette | null = null;
+  if (args.replay) {
+    const loaded = await Cassette.load(args.replay);
+    if (!loaded.success) {
+      console.error(chalk.red(`ERROR: ${loaded.error.message}`));
+      process.exit(1);
+    }
+    cassette = loaded.value;
+  } else if (args.record) {
+    cassette = Cassette.create(args.record);
+  }
+
+  let provider: ModelProvider;
+  if (cassette && args.replay) {
+    provider = new ReplayProvider(cassette);
+  } else {
+    const liveProvider = ProviderFactory.fromEnv('OPENAI');
+    if (!liveProvider) {
+      console.error(chalk.red('ERROR: OPENAI_API_KEY environment variable not set'));
+      console.error('Please set it (or OPENAI_BASE_URL for an OpenAI-compatible server) in your .env file or environment');
+      process.exit(1);
+    }
+    provider = withRecording(liveProvider, cassette);
+  }
+
+  const model = process.env.OPENAI_MODEL || 'gpt-4o';
+  const fallbackModels = (process.env.AGENT_FALLBACK_MODELS || '')
+    .split(',')
+    .map((m) => m.trim())
+    .filter((m) => m.length > 0);
+  const maxRetries = process.env.AGENT_MAX_RETRIES !== undefined
+    ? Number(process.env.AGENT_MAX_RETRIES)
+    : undefined;
+
+  // Code search sub-agent may use its own provider, falls back to the main one
+  const codeSearchLiveProvider = args.replay ? null : ProviderFactory.fromEnv('CODE_SEARCH');
+  const codeSearchProvider = codeSearchLiveProvider
+    ? withRecording(codeSearchLiveProvider, cassette)
+    : provider;
+  const codeSearchModel = process.env.CODE_SEARCH_MODEL;
+
+  // Restore a previous session if requested
+  let resumed: { session: Session; loaded: LoadedSession } | null = null;
+  if (args.resume) {
+    const opened = await sessionStore.open(args.resume);
+    if (!opened.success) {
+      console.error(chalk.red(`ERROR: ${opened.error.message}`));
+      process.exit(1);
+    }
+    resumed = opened.value;
+  }
+
+  const projectPath = resumed ? resumed.loaded.metadata.projectPath : args.projectPath;
+  const task = resumed ? resumed.loaded.metadata.task : args.task;
+  const followUp = resumed ? args.task : '';
 
   console.log(chalk.cyan('═'.repeat(60)));
   console.log(chalk.cyan('TypeScript AI Agent'));
   console.log(chalk.cyan('═'.repeat(60)));
   console.log(chalk.gray(`Project: ${projectPath}`));
-  console.log(chalk.gray(`Task: ${task}`));
-  console.log(chalk.gray(`Mode: ${brave ? 'Brave' : interactive ? 'Interactive' : 'Safe'}`));
+  console.log(chalk.gray(`Task: ${task || '(chat)'}`));
+  if (resumed) {
+    console.log(chalk.gray(`Resuming: ${resumed.session.id} (${resumed.loaded.messages.length} messages, ${resumed.loaded.status})`));
+    if (followUp) {
+      console.log(chalk.gray(`Follow-up: ${followUp}`));
+    }
+  }
+  console.log(chalk.gray(`Model: ${model} (${provider.name})${fallbackModels.length > 0 ? `, fallback: ${fallbackModels.join(' → ')}` : ''}`));
+  console.log(chalk.gray(`Mode: ${brave ? 'Brave' : interactive ? 'Interactive' : 'Safe'}${args.plan ? ' + Plan' : ''}`));
+  if (traceExporters.length > 0) {
+    console.log(chalk.gray(`Tracing: ${traceExporters.join(', ')}`));
+  }
+  if (cassette) {
+    console.log(chalk.gray(`Cassette: ${args.replay ? 'replaying' : 'recording to'} ${cassette.filePath}`));
+  }
   if (userId) {
     console.log(chalk.gray(`User: ${userId}`));
   }
+  if (args.maxCost !== undefined || args.maxTokens !== undefined) {
+    const budget = [
+      args.maxCost !== undefined ? `$${args.maxCost}` : null,
+      args.maxTokens !== undefined ? `${args.maxTokens} tokens` : null
+    ].filter(Boolean).join(', ');
+    console.log(chalk.gray(`Budget: ${budget}`));
+  }
+  if (args.verify.length > 0) {
+    console.log(chalk.gray(`Verify: ${args.verify.join(', ')}`));
+  }
   console.log(chalk.cyan('═'.repeat(60)));
   console.log('');
 
   // Determine confirmation mode
-  const confirmationHandler = brave
+  const modeConfirmationHandler = brave
     ? new BraveConfirmationHandler()
     : interactive
     ? new InteractiveConfirmationHandler()
     : new SafeConfirmationHandler();
 
+  // The transcript shows file edits as diffs, so writes are recorded on the way through
+  const recordingHandler = args.transcript ? new RecordingConfirmationHandler(modeConfirmationHandler) : null;
+  const confirmationHandler = recordingHandler ?? modeConfirmationHandler;
+
   if (brave) {
     console.log(chalk.yellow('⚠️  Brave mode enabled - all operations will be auto-approved'));
   } else if (interactive) {
@@ -146,60 +751,304 @@ async function main() {
   // Initialize file system tools
   const fileSystem = FileSystem.readWrite;
 
-  const tools: Tool[] = [
-    new ListDirectoryTool(fileSystem),
-    new ReadFileTool(fileSystem),
-    new CreateFileTool(fileSystem, confirmationHandler),
-    new EditFileTool(fileSystem, confirmationHandler),
-    new ExecuteShellCommandTool(confirmationHandler)
-  ];
+  const shellTool = new ExecuteShellCommandTool(confirmationHandler);
 
-  // Discover MCP tools
-  const mcpBaseUrl = process.env.MCP_SERVER_URL || 'http://localhost:8080';
-  const mcpServerUrl = mcpBaseUrl.endsWith('/mcp') ? mcpBaseUrl : `${mcpBaseUrl}/mcp`;
-  console.log(chalk.gray(`[MCP] Checking server at ${mcpServerUrl}...`));
+  // Usage is tracked across the main agent and its sub-agents
+  const usage = new UsageTracker({
+    pricing: loadPricing(),
+    limits: { maxCost: args.maxCost, maxTokens: args.maxTokens }
+  });
 
-  const mcpTools = await McpToolDiscovery.discoverTools(mcpServerUrl, false);
+  const mcpServerUrl = mcpServerUrlFromEnv();
+  const mcpTransport = !cassette
+    ? undefined
+    : args.replay
+      ? new ReplayMcpTransport(mcpServerUrl, cassette)
+      : new RecordingMcpTransport(new HttpMcpTransport(mcpServerUrl), mcpServerUrl, cassette);
 
-  if (mcpTools.length > 0) {
-    console.log(chalk.green(`[MCP] Discovered ${mcpTools.length} tools: ${mcpTools.map(t => t.name).join(', ')}`));
-    tools.push(...mcpTools);
-  } else {
-    console.log(chalk.yellow('[MCP] No MCP server available - using file system tools only'));
+  // Load hook plugins (before the tools, so the code search sub-agent runs them too)
+  let hooks;
+  try {
+    hooks = await PluginLoader.loadAll(args.plugins, { projectPath, verbose: true });
+  } catch (error) {
+    console.error(chalk.red(`ERROR: ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(1);
+  }
+  if (hooks.length > 0) {
+    console.log(chalk.gray(`[Plugins] Loaded hooks: ${hooks.map((h) => h.name).join(', ')}`));
   }
 
-  // Add code search sub-agent
-  const codeSearchTool = createCodeSearchAgentTool(openaiApiKey, fileSystem, projectPath, false);
-  tools.push(codeSearchTool);
+  const toolRegistry = new ToolRegistry(toolRegistryConfigFromEnv());
+  try {
+    await registerTools(toolRegistry, {
+      fileSystem,
+      shellTool,
+      confirmationHandler,
+      mcp: { serverUrl: mcpServerUrl, transport: mcpTransport },
+      codeSearch: { provider: codeSearchProvider, model: codeSearchModel, usage, hooks, projectPath }
+    });
+  } catch (error) {
+    console.error(chalk.red(`ERROR: ${error instanceof Error ? error.message : String(error)}`));
+    process.exit(1);
+  }
+  for (const collision of toolRegistry.collisions) {
+    console.log(chalk.yellow(`[Tools] ${describeCollision(collision)}`));
+  }
 
-  console.log(chalk.gray(`\n[Agent] Total tools available: ${tools.length}`));
+  let tools = toolRegistry.tools();
+  const disabledTools = toolRegistry.list().length - tools.length;
+  console.log(chalk.gray(`\n[Agent] Total tools available: ${tools.length}${disabledTools > 0 ? ` (${disabledTools} disabled)` : ''}`));
   console.log('');
 
+
+  // --plan: draft a plan with read-only tools, let the user review it, then track execution
+  let planTracker: PlanTracker | null = null;
+  if (args.plan) {
+    planTracker = await preparePlan({
+      projectPath,
+      task,
+      brave,
+      planner: { provider, model, tools: tools.filter(ToolMetadata.isReadOnly), usage, hooks, verbose: true }
+    });
+
+    if (!planTracker) {
+      console.log(chalk.yellow('Plan rejected - nothing was changed'));
+      printUsageReport(usage);
+      return;
+    }
+
+    toolRegistry.register('agent', planTracker.tools());
+    tools = toolRegistry.tools();
+    hooks = [...hooks, planTracker.hooks()];
+  }
+
   // Create agent
   const agent = new AIAgent({
-    apiKey: openaiApiKey,
-    model: 'gpt-4o',
+    provider,
+    model,
     systemPrompt: getSystemPrompt(projectPath),
     tools,
     maxIterations: 20,
-    verbose: true
+    verbose: true,
+    initialMessages: resumed?.loaded.messages,
+    context: {
+      maxTokens: Number(process.env.AGENT_CONTEXT_TOKENS) || 128_000
+    },
+    toolConcurrency: {
+      maxConcurrent: Number(process.env.AGENT_TOOL_CONCURRENCY) || 4
+    },
+    toolPolicy: toolPolicyFromEnv(tools, { prompts: interactive && !brave }),
+    usage,
+    retry: maxRetries !== undefined && Number.isFinite(maxRetries) ? { maxRetries } : undefined,
+    fallbackModels,
+    hooks,
+    // Built-in tools are always offered, MCP tools by relevance to the current turn
+    toolSelection: {
+      coreTools: tools.filter((tool) => ToolMetadata.of(tool).category !== 'mcp').map((tool) => tool.name),
+      maxSelected: Number(process.env.AGENT_MAX_SELECTED_TOOLS) || 8
+    },
+    // Build/test commands run when the model says it is done; failures go back to it
+    verification: {
+      commands: args.verify,
+      shell: shellTool,
+      workingDirectory: projectPath,
+      maxAttempts: Number(process.env.AGENT_VERIFY_ATTEMPTS) || 3
+    }
   });
 
+  // Persist the conversation so a crashed or exhausted run can be resumed
+  const session = resumed?.session ?? sessionStore.create({
+    projectPath,
+    task: task || '(chat)',
+    model,
+    provider: provider.name
+  });
+  session.attach(agent);
+  if (resumed) {
+    session.recordStatus('running', followUp ? `resumed with follow-up: ${followUp}` : 'resumed');
+  }
+  console.log(chalk.gray(`[Session] ${session.id}`));
+
+  // Show and persist plan progress
+  if (planTracker) {
+    session.recordPlan(planTracker.plan);
+    planTracker.on((event) => {
+      switch (event.type) {
+        case 'step_updated':
+          console.log(chalk.cyan(`\n[Plan] ${Plan.format({ ...event.plan, steps: [event.step] })}`));
+          session.recordPlan(event.plan);
+          break;
+        case 'deviation_approved':
+          console.log(chalk.cyan(`\n[Plan] Revision ${event.plan.revision} approved:\n${Plan.format(event.plan)}`));
+          session.recordPlan(event.plan);
+          break;
+        case 'deviation_rejected':
+          console.log(chalk.yellow(`\n[Plan] Change rejected: ${event.reason}`));
+          break;
+      }
+    });
+  }
+
+  // Remember finished tool calls so an interrupted run can report its progress
+  const completedToolCalls: string[] = [];
+  let stopReason: StopReason = 'completed';
+  let verification: VerificationReport | null = null;
+  agent.on((event) => {
+    if (event.type === 'tool_call_end') {
+      const mark = event.toolResult.status === 'ok' ? '✓' : event.toolResult.status === 'rejected' ? '⊘' : '✗';
+      completedToolCalls.push(`${mark} ${event.name} ${event.arguments}`);
+    }
+    if (event.type === 'verification') {
+      verification = event.report;
+    }
+    if (event.type === 'done') {
+      stopReason = event.stopReason;
+    }
+  });
+
+  // Written on every way out of the run, so failed and interrupted runs are documented too
+  let transcriptWritten = false;
+  const writeTranscript = async () => {
+    if (!args.transcript || transcriptWritten) {
+      return;
+    }
+    transcriptWritten = true;
+    try {
+      const format = await Transcript.write(args.transcript, agent.getMessages(), {
+        title: `Agent transcript: ${task || '(chat)'}`,
+        metadata: {
+          Project: projectPath,
+          Model: `${model} (${provider.name})`,
+          Session: session.id,
+          Exported: new Date().toISOString()
+        },
+        fileChanges: recordingHandler?.fileChanges
+      });
+      console.log(chalk.gray(`Transcript (${format}) written to ${args.transcript}`));
+    } catch (error) {
+      console.error(chalk.red(`ERROR: Cannot write transcript: ${error instanceof Error ? error.message : String(error)}`));
+    }
+  };
+
+  if (args.chat) {
+    await runChat({
+      agent,
+      session,
+      usage,
+      projectPath,
+      initialInput: resumed ? followUp : task,
+      newConversation: !resumed,
+      writeTranscript
+    });
+    return;
+  }
+
+  // First Ctrl-C stops the run cleanly, a second one forces exit
+  const controller = new AbortController();
+  let interrupts = 0;
+  const onSigint = () => {
+    interrupts++;
+    if (interrupts === 1) {
+      console.log(chalk.yellow('\n⏹  Interrupt received - stopping the agent (press Ctrl-C again to force exit)'));
+      controller.abort();
+      return;
+    }
+    console.log(chalk.red('\n⏹  Forced exit'));
+    session.recordStatus('interrupted', 'forced exit');
+    process.exit(130);
+  };
+  process.on('SIGINT', onSigint);
+
   try {
-    // Run agent
-    const input = `Project path: ${projectPath}\n\nTask: ${task}`;
-    console.log(chalk.cyan('[Agent] Starting task execution...\n'));
+    let result: string;
 
-    const result = await agent.run(input);
+    if (resumed && !followUp) {
+      console.log(chalk.cyan('[Agent] Resuming task execution...\n'));
+      result = await agent.resume({ signal: controller.signal });
+    } else {
+      // Run agent
+      const input = resumed
+        ? followUp
+        : planTracker
+          ? planTracker.executionPrompt(projectPath, task)
+          : `Project path: ${projectPath}\n\nTask: ${task}`;
+      console.log(chalk.cyan('[Agent] Starting task execution...\n'));
+      result = await agent.run(input, { signal: controller.signal });
+    }
 
     console.log('');
-    console.log(chalk.cyan('═'.repeat(60)));
-    console.log(chalk.green('✅ Task Completed'));
-    console.log(chalk.cyan('═'.repeat(60)));
+    if (stopReason === 'completed') {
+      session.recordStatus('completed');
+      console.log(chalk.cyan('═'.repeat(60)));
+      console.log(chalk.green('✅ Task Completed'));
+      console.log(chalk.cyan('═'.repeat(60)));
+    } else {
+      // The result is the agent's summary of progress and remaining work
+      const reason = stopReason === 'max_iterations'
+        ? 'iteration limit reached'
+        : stopReason === 'verification_failed'
+          ? 'verification kept failing'
+          : 'agent was stuck in a loop';
+      session.recordStatus('interrupted', reason);
+      console.log(chalk.yellow('═'.repeat(60)));
+      console.log(chalk.yellow(`⚠️  Stopped Early (${reason}) - Progress Summary`));
+      console.log(chalk.yellow('═'.repeat(60)));
+    }
     console.log('');
     console.log(result);
     console.log('');
+    if (planTracker) {
+      printPlanReport(planTracker.plan);
+    }
+    if (verification) {
+      printVerificationReport(verification);
+    }
+    printUsageReport(usage);
+    if (stopReason !== 'completed') {
+      console.log(chalk.gray(`Conversation saved. Continue with: --resume ${session.id} "<next instruction>"`));
+    }
+    if (args.replay && cassette && cassette.remaining > 0) {
+      console.log(chalk.yellow(`Cassette: ${cassette.remaining} recorded interaction(s) were not replayed`));
+    }
   } catch (error) {
+    if (error instanceof AgentAbortedError) {
+      console.log('');
+      console.log(chalk.yellow('═'.repeat(60)));
+      console.log(chalk.yellow('⏹  Interrupted'));
+      console.log(chalk.yellow('═'.repeat(60)));
+      console.log('');
+      console.log(`${error.message}. Completed tool calls:`);
+      for (const call of completedToolCalls) {
+        console.log(chalk.gray(`  ${call.length > 120 ? call.substring(0, 117) + '...' : call}`));
+      }
+      if (completedToolCalls.length === 0) {
+        console.log(chalk.gray('  (none)'));
+      }
+      console.log('');
+      printUsageReport(usage);
+      session.recordStatus('interrupted', error.message);
+      console.log(chalk.gray(`Conversation saved. Continue with: --resume ${session.id}`));
+      await writeTranscript();
+      await agent.close();
+      process.exit(130);
+    }
+
+    if (error instanceof BudgetExceededError) {
+      console.log('');
+      console.log(chalk.yellow('═'.repeat(60)));
+      console.log(chalk.yellow('⏹  Budget Exceeded - run stopped'));
+      console.log(chalk.yellow('═'.repeat(60)));
+      console.log('');
+      console.log(error.message);
+      console.log('');
+      printUsageReport(usage);
+      session.recordStatus('interrupted', error.message);
+      console.log(chalk.gray(`Conversation saved. Continue with: --resume ${session.id} --max-cost <higher limit>`));
+      await writeTranscript();
+      await agent.close();
+      process.exit(2);
+    }
+
     console.error('');
     console.error(chalk.red('═'.repeat(60)));
     console.error(chalk.red('❌ Error'));
@@ -207,9 +1056,17 @@ async function main() {
     console.error('');
     console.error(error);
     console.error('');
+    printUsageReport(usage);
+    session.recordStatus('failed', error instanceof Error ? error.message : String(error));
+    console.error(chalk.gray(`Conversation saved. Continue with: --resume ${session.id}`));
+    await writeTranscript();
+    await agent.close();
     process.exit(1);
   } finally {
+    process.off('SIGINT', onSigint);
+    await writeTranscript();
     await agent.close();
+    await Telemetry.shutdown();
   }
 }
 
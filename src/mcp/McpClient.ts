@@ -1,32 +1,28 @@
-import axios, { AxiosInstance } from 'axios';
+import axios from 'axios';
 import {
   JsonRpcRequest,
-  JsonRpcResponse,
   InitializeResult,
   McpTool,
   ToolCallResult,
   McpException,
   ToolsListResponse
 } from './McpProtocol.js';
+import { McpTransport, HttpMcpTransport } from './McpTransport.js';
+import { Tracing } from '../telemetry/Tracing.js';
 
 /**
  * HTTP-based JSON-RPC client for MCP servers
  */
 export class McpClient {
-  private axios: AxiosInstance;
+  private transport: McpTransport;
   private requestId = 0;
 
   constructor(
     private serverUrl: string,
-    private verbose: boolean = false
+    private verbose: boolean = false,
+    transport?: McpTransport
   ) {
-    this.axios = axios.create({
-      baseURL: serverUrl,
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      timeout: 30000
-    });
+    this.transport = transport ?? new HttpMcpTransport(serverUrl);
   }
 
   /**
@@ -69,7 +65,11 @@ export class McpClient {
   /**
    * Call a tool on the MCP server
    */
-  async callTool(name: string, args: Record<string, any>): Promise<ToolCallResult> {
+  async callTool(
+    name: string,
+    args: Record<string, any>,
+    signal?: AbortSignal
+  ): Promise<ToolCallResult> {
     const request: JsonRpcRequest = {
       jsonrpc: '2.0',
       id: this.nextId(),
@@ -80,7 +80,7 @@ export class McpClient {
       }
     };
 
-    const response = await this.sendRequest<ToolCallResult>(request);
+    const response = await this.sendRequest<ToolCallResult>(request, signal);
     return response;
   }
 
@@ -88,43 +88,58 @@ export class McpClient {
    * Check if server is available
    */
   async isServerAvailable(): Promise<boolean> {
-    try {
-      const healthUrl = this.serverUrl.replace('/mcp', '/health');
-      const response = await axios.get(healthUrl, { timeout: 5000 });
-      return response.status === 200;
-    } catch {
-      return false;
-    }
+    return this.transport.isAvailable();
   }
 
   /**
-   * Send JSON-RPC request to server
+   * Send JSON-RPC request to server, traced as an RPC client span
    */
-  private async sendRequest<T>(request: JsonRpcRequest): Promise<T> {
+  private sendRequest<T>(request: JsonRpcRequest, signal?: AbortSignal): Promise<T> {
+    const attributes = {
+      'rpc.system': 'jsonrpc',
+      'rpc.method': request.method,
+      'rpc.jsonrpc.request_id': String(request.id),
+      'server.address': this.serverUrl,
+      ...(request.method === 'tools/call' ? { 'gen_ai.tool.name': String(request.params?.name) } : {})
+    };
+
+    return Tracing.withSpan(`mcp ${request.method}`, attributes, async (span) => {
+      try {
+        return await this.post<T>(request, signal);
+      } catch (error) {
+        if (error instanceof McpException && error.code !== undefined) {
+          span.setAttribute('rpc.jsonrpc.error_code', error.code);
+        }
+        throw error;
+      }
+    });
+  }
+
+  private async post<T>(request: JsonRpcRequest, signal?: AbortSignal): Promise<T> {
     try {
       if (this.verbose) {
         console.log('[MCP] Request:', JSON.stringify(request, null, 2));
       }
 
-      const response = await this.axios.post<JsonRpcResponse<T>>('', request);
+      const response = await this.transport.send<T>(request, signal);
 
       if (this.verbose) {
-        console.log('[MCP] Response:', JSON.stringify(response.data, null, 2));
+        console.log('[MCP] Response:', JSON.stringify(response, null, 2));
       }
 
-      if (response.data.error) {
+      if (response.error) {
         throw new McpException(
-          response.data.error.message,
-          response.data.error.code,
-          response.data.error.data
+          response.error.message,
+          response.error.code,
+          response.error.data
         );
       }
 
-      if (response.data.result === undefined) {
+      if (response.result === undefined) {
         throw new McpException('No result in response');
       }
 
-      return response.data.result;
+      return response.result;
     } catch (error) {
       if (error instanceof McpException) {
         throw error;
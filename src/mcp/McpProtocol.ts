@@ -43,6 +43,23 @@ export interface McpTool {
     properties: Record<string, any>;
     required?: string[];
   };
+  annotations?: ToolAnnotations;
+}
+
+/**
+ * Hints about a tool's behavior (added in the 2025-03-26 specification)
+ * Servers are not trusted to report them correctly; clients use them as hints
+ */
+export interface ToolAnnotations {
+  title?: string;
+  /** The tool does not modify its environment (default: false) */
+  readOnlyHint?: boolean;
+  /** Modifications may be destructive rather than additive (default: true) */
+  destructiveHint?: boolean;
+  /** Repeated calls with the same arguments have no additional effect (default: false) */
+  idempotentHint?: boolean;
+  /** The tool interacts with external entities (default: true) */
+  openWorldHint?: boolean;
 }
 
 /**
@@ -1,41 +1,86 @@
-import { BaseTool } from '../core/Tool.js';
+import { BaseTool, ToolContext, ToolMetadata } from '../core/Tool.js';
+import { ToolResult } from '../core/ToolResult.js';
+import { ConfirmationHandler, FileWriteConfirmation } from '../config/ConfirmationHandler.js';
 import { McpClient } from './McpClient.js';
-import { McpTool, ToolCallResult } from './McpProtocol.js';
+import { McpTool, ToolAnnotations, ToolCallResult } from './McpProtocol.js';
 
 /**
  * Adapter that bridges MCP tools to our Tool interface
  * Allows MCP tools to be used alongside native tools
  */
-export class McpToolAdapter extends BaseTool<Record<string, any>, string> {
+export class McpToolAdapter extends BaseTool<Record<string, any>, ToolResult<ToolCallResult>> {
   readonly name: string;
   readonly description: string;
+  readonly metadata: ToolMetadata;
   private schema: Record<string, any>;
 
+  /**
+   * `server` is the name the server reported during initialization
+   * Without a confirmation handler, tools are called without asking the user
+   */
   constructor(
     mcpTool: McpTool,
-    private mcpClient: McpClient
+    private mcpClient: McpClient,
+    readonly server: string,
+    private confirmationHandler?: ConfirmationHandler
   ) {
     super();
     this.name = mcpTool.name;
     this.description = mcpTool.description;
     this.schema = mcpTool.inputSchema;
+    this.metadata = McpToolAdapter.toMetadata(mcpTool.annotations);
+  }
+
+  /**
+   * Map MCP tool annotations to tool metadata
+   * Missing annotations use the MCP defaults: the tool may modify and destroy data
+   */
+  static toMetadata(annotations: ToolAnnotations = {}): ToolMetadata {
+    const readOnly = annotations.readOnlyHint ?? false;
+    const destructive = !readOnly && (annotations.destructiveHint ?? true);
+
+    return {
+      readOnly,
+      destructive,
+      requiresConfirmation: destructive,
+      idempotent: readOnly || (annotations.idempotentHint ?? false),
+      category: 'mcp'
+    };
   }
 
   protected getParametersSchema(): Record<string, any> {
     return this.schema;
   }
 
-  async execute(args: Record<string, any>): Promise<string> {
+  async execute(args: Record<string, any>, context?: ToolContext): Promise<ToolResult<ToolCallResult>> {
+    if (this.metadata.requiresConfirmation && this.confirmationHandler) {
+      const confirmation = await this.confirmationHandler.requestToolCallConfirmation({
+        name: this.name,
+        args,
+        metadata: ToolMetadata.of(this)
+      });
+
+      if (!FileWriteConfirmation.isApproved(confirmation)) {
+        if (FileWriteConfirmation.isError(confirmation)) {
+          return ToolResult.error('confirmation_failed', (confirmation as any).message);
+        }
+        return ToolResult.rejected(`MCP tool call cancelled by user: ${this.name}`);
+      }
+    }
+
     try {
-      const result: ToolCallResult = await this.mcpClient.callTool(this.name, args);
+      const result: ToolCallResult = await this.mcpClient.callTool(this.name, args, context?.signal);
 
       if (result.isError) {
-        return `ERROR: ${this.formatResult(result)}`;
+        return ToolResult.error('tool_failed', this.formatResult(result), { data: result });
       }
 
-      return this.formatResult(result);
+      return ToolResult.ok(this.formatResult(result), result);
     } catch (error) {
-      return `ERROR: Failed to call MCP tool '${this.name}': ${error instanceof Error ? error.message : String(error)}`;
+      return ToolResult.error(
+        'tool_failed',
+        `Failed to call MCP tool '${this.name}': ${error instanceof Error ? error.message : String(error)}`
+      );
     }
   }
 
@@ -1,7 +1,8 @@
-import { Tool } from '../core/Tool.js';
+import { ConfirmationHandler } from '../config/ConfirmationHandler.js';
 import { McpClient } from './McpClient.js';
 import { McpToolAdapter } from './McpToolAdapter.js';
 import { McpException } from './McpProtocol.js';
+import { McpTransport } from './McpTransport.js';
 
 /**
  * Auto-discovers and registers MCP tools
@@ -10,13 +11,16 @@ export const McpToolDiscovery = {
   /**
    * Discover all tools from MCP server
    * Returns empty array on failure (graceful degradation)
+   * Calls to tools that require confirmation go through the confirmation handler
    */
   async discoverTools(
     serverUrl: string,
-    verbose: boolean = false
-  ): Promise<Tool[]> {
+    verbose: boolean = false,
+    transport?: McpTransport,
+    confirmationHandler?: ConfirmationHandler
+  ): Promise<McpToolAdapter[]> {
     try {
-      const client = new McpClient(serverUrl, verbose);
+      const client = new McpClient(serverUrl, verbose, transport);
 
       // Test connection
       if (verbose) {
@@ -50,8 +54,8 @@ export const McpToolDiscovery = {
       }
 
       // Create adapters for each tool
-      const tools: Tool[] = mcpTools.map(
-        (mcpTool) => new McpToolAdapter(mcpTool, client)
+      const tools = mcpTools.map(
+        (mcpTool) => new McpToolAdapter(mcpTool, client, initResult.serverInfo.name, confirmationHandler)
       );
 
       return tools;
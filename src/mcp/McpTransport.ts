@@ -0,0 +1,83 @@
+import axios, { AxiosInstance } from 'axios';
+import { JsonRpcRequest, JsonRpcResponse } from './McpProtocol.js';
+import { Cassette } from '../cassette/Cassette.js';
+
+/**
+ * Carries JSON-RPC messages between McpClient and a server
+ */
+export interface McpTransport {
+  send<T>(request: JsonRpcRequest, signal?: AbortSignal): Promise<JsonRpcResponse<T>>;
+  isAvailable(): Promise<boolean>;
+}
+
+/**
+ * JSON-RPC over HTTP POST (the default)
+ */
+export class HttpMcpTransport implements McpTransport {
+  private axios: AxiosInstance;
+
+  constructor(private serverUrl: string) {
+    this.axios = axios.create({
+      baseURL: serverUrl,
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      timeout: 30000
+    });
+  }
+
+  async send<T>(request: JsonRpcRequest, signal?: AbortSignal): Promise<JsonRpcResponse<T>> {
+    const response = await this.axios.post<JsonRpcResponse<T>>('', request, { signal });
+    return response.data;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const healthUrl = this.serverUrl.replace('/mcp', '/health');
+      const response = await axios.get(healthUrl, { timeout: 5000 });
+      return response.status === 200;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Records every exchange of another transport to a cassette
+ */
+export class RecordingMcpTransport implements McpTransport {
+  constructor(
+    private inner: McpTransport,
+    private serverUrl: string,
+    private cassette: Cassette
+  ) {}
+
+  async send<T>(request: JsonRpcRequest, signal?: AbortSignal): Promise<JsonRpcResponse<T>> {
+    const response = await this.inner.send<T>(request, signal);
+    this.cassette.record({ type: 'mcp', serverUrl: this.serverUrl, request, response });
+    return response;
+  }
+
+  isAvailable(): Promise<boolean> {
+    return this.inner.isAvailable();
+  }
+}
+
+/**
+ * Serves MCP responses from a cassette
+ * The server counts as available only if the recording talked to it
+ */
+export class ReplayMcpTransport implements McpTransport {
+  constructor(
+    private serverUrl: string,
+    private cassette: Cassette
+  ) {}
+
+  async send<T>(request: JsonRpcRequest): Promise<JsonRpcResponse<T>> {
+    return this.cassette.replayMcp(this.serverUrl, request) as JsonRpcResponse<T>;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.cassette.hasMcp(this.serverUrl);
+  }
+}
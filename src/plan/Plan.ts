@@ -0,0 +1,80 @@
+import { z } from 'zod';
+
+/**
+ * Progress of a single plan step
+ */
+export type PlanStepStatus = 'pending' | 'in_progress' | 'done' | 'skipped' | 'failed';
+
+/**
+ * One numbered step of an approved plan
+ */
+export interface PlanStep {
+  number: number;
+  description: string;
+  status: PlanStepStatus;
+  /** Short outcome or reason reported by the agent */
+  note?: string;
+}
+
+/**
+ * Plan the user approved before execution
+ */
+export interface Plan {
+  summary: string;
+  steps: PlanStep[];
+  /** Incremented every time a deviation is approved */
+  revision: number;
+}
+
+/**
+ * Shape the planning agent submits (validated through structured output)
+ */
+export const PlanDraftSchema = z.object({
+  summary: z.string().describe('One or two sentences describing the overall approach'),
+  steps: z.array(z.string().min(1)).min(1).describe(
+    'Ordered, concrete steps. Each step names the files or commands involved.'
+  )
+});
+
+export type PlanDraft = z.infer<typeof PlanDraftSchema>;
+
+const STATUS_ICONS: Record<PlanStepStatus, string> = {
+  pending: '○',
+  in_progress: '▶',
+  done: '✓',
+  skipped: '↷',
+  failed: '✗'
+};
+
+/**
+ * Helpers for building and displaying plans
+ */
+export const Plan = {
+  fromDraft(draft: PlanDraft, revision: number = 1): Plan {
+    return {
+      summary: draft.summary,
+      steps: draft.steps.map((description, index) => ({
+        number: index + 1,
+        description,
+        status: 'pending'
+      })),
+      revision
+    };
+  },
+
+  /**
+   * Numbered list with status icons, used in prompts and the terminal
+   */
+  format(plan: Plan): string {
+    return plan.steps
+      .map((step) => `${STATUS_ICONS[step.status]} ${step.number}. ${step.description}${step.note ? ` (${step.note})` : ''}`)
+      .join('\n');
+  },
+
+  /**
+   * Steps that still need work
+   */
+  unfinished(plan: Plan): PlanStep[] {
+    return plan.steps.filter((step) => step.status === 'pending' || step.status === 'in_progress');
+  }
+};
@@ -0,0 +1,139 @@
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import { Plan, PlanStep } from './Plan.js';
+
+type ReviewAction = 'approve' | 'edit' | 'add' | 'remove' | 'reject';
+
+/**
+ * Terminal review of a plan: approve, edit, add or remove steps, or reject
+ */
+export class PlanReview {
+  /**
+   * Show the plan and let the user adjust it
+   * Returns the approved plan, or null if it was rejected
+   */
+  async review(plan: Plan, heading: string = 'Proposed plan'): Promise<Plan | null> {
+    // Without a terminal there is nobody to ask
+    if (!process.stdin.isTTY) {
+      this.print(plan, heading);
+      console.log('[Interactive] No TTY available, auto-approving plan');
+      return plan;
+    }
+
+    let current = plan;
+
+    while (true) {
+      this.print(current, heading);
+
+      const { action } = await inquirer.prompt<{ action: ReviewAction }>([
+        {
+          type: 'list',
+          name: 'action',
+          message: 'Review the plan:',
+          choices: [
+            { name: 'Approve - Execute this plan', value: 'approve' },
+            { name: 'Edit - Change a step', value: 'edit' },
+            { name: 'Add - Insert a step', value: 'add' },
+            { name: 'Remove - Delete a step', value: 'remove' },
+            { name: 'Reject - Stop without changing anything', value: 'reject' }
+          ]
+        }
+      ]);
+
+      switch (action) {
+        case 'approve':
+          return current;
+        case 'reject':
+          return null;
+        case 'edit':
+          current = await this.editStep(current);
+          break;
+        case 'add':
+          current = await this.addStep(current);
+          break;
+        case 'remove':
+          current = await this.removeStep(current);
+          break;
+      }
+    }
+  }
+
+  print(plan: Plan, heading: string): void {
+    console.log('');
+    console.log(chalk.cyan(`📋 ${heading}${plan.revision > 1 ? ` (revision ${plan.revision})` : ''}:`));
+    console.log(chalk.gray(plan.summary));
+    console.log(Plan.format(plan));
+    console.log('');
+  }
+
+  private async editStep(plan: Plan): Promise<Plan> {
+    const step = await this.chooseStep(plan, 'Step to edit:');
+    const { description } = await inquirer.prompt<{ description: string }>([
+      { type: 'input', name: 'description', message: `Step ${step.number}:`, default: step.description }
+    ]);
+
+    if (!description.trim()) {
+      return plan;
+    }
+
+    return this.withSteps(plan, plan.steps.map((s) =>
+      s.number === step.number ? { ...s, description: description.trim() } : s
+    ));
+  }
+
+  private async addStep(plan: Plan): Promise<Plan> {
+    const { description } = await inquirer.prompt<{ description: string }>([
+      { type: 'input', name: 'description', message: 'New step:' }
+    ]);
+
+    if (!description.trim()) {
+      return plan;
+    }
+
+    const { position } = await inquirer.prompt<{ position: number }>([
+      {
+        type: 'list',
+        name: 'position',
+        message: 'Insert:',
+        choices: [
+          { name: 'At the beginning', value: 0 },
+          ...plan.steps.map((s) => ({ name: `After ${s.number}. ${s.description}`, value: s.number }))
+        ],
+        default: plan.steps.length
+      }
+    ]);
+
+    const steps = [...plan.steps];
+    steps.splice(position, 0, { number: 0, description: description.trim(), status: 'pending' });
+    return this.withSteps(plan, steps);
+  }
+
+  private async removeStep(plan: Plan): Promise<Plan> {
+    if (plan.steps.length <= 1) {
+      console.log(chalk.yellow('A plan needs at least one step - reject it instead'));
+      return plan;
+    }
+
+    const step = await this.chooseStep(plan, 'Step to remove:');
+    return this.withSteps(plan, plan.steps.filter((s) => s.number !== step.number));
+  }
+
+  private async chooseStep(plan: Plan, message: string): Promise<PlanStep> {
+    const { number } = await inquirer.prompt<{ number: number }>([
+      {
+        type: 'list',
+        name: 'number',
+        message,
+        choices: plan.steps.map((s) => ({ name: `${s.number}. ${s.description}`, value: s.number }))
+      }
+    ]);
+    return plan.steps.find((s) => s.number === number)!;
+  }
+
+  /**
+   * Renumber steps after an edit
+   */
+  private withSteps(plan: Plan, steps: PlanStep[]): Plan {
+    return { ...plan, steps: steps.map((step, index) => ({ ...step, number: index + 1 })) };
+  }
+}
@@ -0,0 +1,203 @@
+import { z } from 'zod';
+import { BaseTool, ToolMetadata } from '../core/Tool.js';
+import { ZodTool } from '../core/ZodTool.js';
+import { ToolResult } from '../core/ToolResult.js';
+import { AgentHooks, ToolCallDecision } from '../agent/AgentHooks.js';
+import { Plan, PlanStep, PlanStepStatus } from './Plan.js';
+
+/**
+ * Changes to the plan during execution
+ */
+export type PlanEvent =
+  | { type: 'step_updated'; step: PlanStep; plan: Plan }
+  | { type: 'deviation_approved'; reason: string; plan: Plan }
+  | { type: 'deviation_rejected'; reason: string; proposed: Plan };
+
+export type PlanEventListener = (event: PlanEvent) => void;
+
+/**
+ * Decides on a proposed plan change
+ * Returns the plan to continue with (possibly edited) or null to reject
+ */
+export type PlanApprover = (proposed: Plan, current: Plan, reason: string) => Promise<Plan | null>;
+
+export interface PlanTrackerOptions {
+  approver: PlanApprover;
+}
+
+const UPDATE_STEP_TOOL = 'update_plan_step';
+const PROPOSE_CHANGE_TOOL = 'propose_plan_change';
+
+/**
+ * Tracks execution of an approved plan
+ *
+ * The executing agent reports progress through update_plan_step and must ask for
+ * re-approval through propose_plan_change before doing work the plan does not
+ * cover. A beforeToolCall hook rejects modifying tool calls while no step is in
+ * progress, so unplanned changes cannot slip through silently.
+ */
+export class PlanTracker {
+  private current: Plan;
+  private listeners = new Set<PlanEventListener>();
+
+  constructor(
+    plan: Plan,
+    private options: PlanTrackerOptions
+  ) {
+    this.current = plan;
+  }
+
+  get plan(): Plan {
+    return this.current;
+  }
+
+  on(listener: PlanEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Tools the executing agent uses to report progress and propose changes
+   */
+  tools(): BaseTool[] {
+    return [new UpdatePlanStepTool(this), new ProposePlanChangeTool(this)];
+  }
+
+  /**
+   * Hook that blocks modifying tool calls outside an in-progress step
+   */
+  hooks(): AgentHooks {
+    return {
+      name: 'plan',
+      beforeToolCall: ({ name, metadata }) => {
+        // Read-only tools may run without an active step: exploration does not deviate from the plan
+        const exempt = name === UPDATE_STEP_TOOL || name === PROPOSE_CHANGE_TOOL || metadata.readOnly;
+
+        if (exempt || this.current.steps.some((step) => step.status === 'in_progress')) {
+          return ToolCallDecision.proceed();
+        }
+
+        return ToolCallDecision.veto(
+          `no plan step is in progress. Call ${UPDATE_STEP_TOOL} to start the step this work belongs to, ` +
+          `or ${PROPOSE_CHANGE_TOOL} if it is not part of the approved plan`
+        );
+      }
+    };
+  }
+
+  /**
+   * Task message for the executing agent
+   */
+  executionPrompt(projectPath: string, task: string): string {
+    return `Project path: ${projectPath}\n\nTask: ${task}\n\n` +
+      `The user approved this plan (${this.current.summary}):\n${Plan.format(this.current)}\n\n` +
+      'Work through the steps in order. Before starting a step call ' +
+      `${UPDATE_STEP_TOOL} with status "in_progress"; when it is finished call it again with "done", ` +
+      '"skipped" or "failed" and a short note. If you need to do anything the plan does not cover, ' +
+      `call ${PROPOSE_CHANGE_TOOL} first and wait for approval.`;
+  }
+
+  updateStep(number: number, status: PlanStepStatus, note?: string): ToolResult {
+    const step = this.current.steps.find((s) => s.number === number);
+    if (!step) {
+      return ToolResult.error('not_found', `Plan has no step ${number} (steps 1-${this.current.steps.length})`);
+    }
+
+    if (status === 'pending') {
+      return ToolResult.error('unsupported', 'Steps cannot be reset to pending', {
+        suggestion: `Propose a plan change with ${PROPOSE_CHANGE_TOOL} instead.`
+      });
+    }
+
+    const updated: PlanStep = { ...step, status, note: note ?? step.note };
+    this.current = {
+      ...this.current,
+      steps: this.current.steps.map((s) => (s.number === number ? updated : s))
+    };
+    this.emit({ type: 'step_updated', step: updated, plan: this.current });
+
+    const open = Plan.unfinished(this.current).filter((s) => s.number !== number);
+    return ToolResult.ok(
+      `Step ${number} is ${status}` +
+        (status !== 'in_progress' && open.length > 0 ? `. Next: ${open[0].number}. ${open[0].description}` : ''),
+      { step: updated }
+    );
+  }
+
+  /**
+   * Replace the unfinished steps after the approver agrees
+   * Finished steps are kept so the history of the run stays visible
+   */
+  async proposeChange(reason: string, steps: string[]): Promise<ToolResult> {
+    const finished = this.current.steps.filter((step) => !Plan.unfinished(this.current).includes(step));
+    const proposed: Plan = {
+      summary: this.current.summary,
+      steps: [
+        ...finished,
+        ...steps.map((description): PlanStep => ({ number: 0, description, status: 'pending' }))
+      ].map((step, index) => ({ ...step, number: index + 1 })),
+      revision: this.current.revision + 1
+    };
+
+    const approved = await this.options.approver(proposed, this.current, reason);
+    if (!approved) {
+      this.emit({ type: 'deviation_rejected', reason, proposed });
+      return ToolResult.rejected('The user did not approve the plan change. Continue with the approved plan.', { proposed });
+    }
+
+    this.current = approved;
+    this.emit({ type: 'deviation_approved', reason, plan: approved });
+    return ToolResult.ok(`Plan change approved. Current plan:\n${Plan.format(approved)}`, { plan: approved });
+  }
+
+  private emit(event: PlanEvent): void {
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+}
+
+const UpdatePlanStepSchema = z.object({
+  step: z.number().int().describe('Step number'),
+  status: z.enum(['in_progress', 'done', 'skipped', 'failed']),
+  note: z.string().optional().describe('Short outcome or reason')
+});
+
+class UpdatePlanStepTool extends ZodTool<typeof UpdatePlanStepSchema, ToolResult> {
+  readonly name = UPDATE_STEP_TOOL;
+  readonly description = 'Report progress on a step of the approved plan. Mark a step in_progress before working on it, then done, skipped or failed.';
+  readonly metadata: ToolMetadata = { destructive: false, idempotent: true, category: 'planning' };
+  readonly schema = UpdatePlanStepSchema;
+
+  constructor(private tracker: PlanTracker) {
+    super();
+  }
+
+  async execute(args: z.output<typeof UpdatePlanStepSchema>): Promise<ToolResult> {
+    return this.tracker.updateStep(args.step, args.status, args.note);
+  }
+}
+
+const ProposePlanChangeSchema = z.object({
+  reason: z.string().describe('Why the approved plan is not sufficient'),
+  steps: z.array(z.string())
+    .min(1, 'List the remaining steps of the revised plan')
+    .describe('Revised remaining steps, replacing every unfinished step')
+});
+
+class ProposePlanChangeTool extends ZodTool<typeof ProposePlanChangeSchema, ToolResult> {
+  readonly name = PROPOSE_CHANGE_TOOL;
+  readonly description = 'Ask the user to approve a change to the plan before doing work it does not cover. The steps replace all unfinished steps.';
+  readonly metadata: ToolMetadata = { destructive: false, requiresConfirmation: true, category: 'planning' };
+  readonly schema = ProposePlanChangeSchema;
+
+  constructor(private tracker: PlanTracker) {
+    super();
+  }
+
+  async execute(args: z.output<typeof ProposePlanChangeSchema>): Promise<ToolResult> {
+    return this.tracker.proposeChange(args.reason, args.steps);
+  }
+}
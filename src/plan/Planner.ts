@@ -0,0 +1,72 @@
+import { AIAgent, RunOptions } from '../agent/AIAgent.js';
+import { Tool } from '../core/Tool.js';
+import { ModelProvider } from '../providers/ModelProvider.js';
+import { UsageTracker } from '../usage/UsageTracker.js';
+import { AgentHooks } from '../agent/AgentHooks.js';
+import { Plan, PlanDraftSchema } from './Plan.js';
+
+/**
+ * Options for the planning phase
+ */
+export interface PlannerOptions {
+  provider: ModelProvider;
+  model?: string;
+  /** Read-only tools only - nothing may change while planning */
+  tools: Tool[];
+  usage?: UsageTracker;
+  hooks?: AgentHooks[];
+  verbose?: boolean;
+  maxIterations?: number;
+}
+
+function getPlannerSystemPrompt(projectPath: string): string {
+  return `You are a senior programmer preparing an implementation plan. You do NOT change anything yet.
+
+**Current Project:** ${projectPath}
+
+**Your Process:**
+1. Explore the project with the read-only tools you have
+2. Read the files the task touches
+3. Submit a numbered plan of concrete steps
+
+**A good plan:**
+- Has steps that can each be checked off on their own
+- Names the files to create or edit and the commands to run
+- Ends with a verification step (build, tests or re-reading changed files)
+- Contains no steps that are already done or not needed for the task`;
+}
+
+/**
+ * Planning phase of --plan mode
+ * Runs a separate agent with read-only tools and returns its plan
+ */
+export const Planner = {
+  async createPlan(
+    projectPath: string,
+    task: string,
+    options: PlannerOptions,
+    runOptions: RunOptions = {}
+  ): Promise<Plan> {
+    const agent = new AIAgent({
+      provider: options.provider,
+      model: options.model,
+      systemPrompt: getPlannerSystemPrompt(projectPath),
+      tools: options.tools,
+      maxIterations: options.maxIterations ?? 15,
+      verbose: options.verbose,
+      usage: options.usage,
+      hooks: options.hooks,
+      name: 'planner'
+    });
+
+    try {
+      const draft = await agent.run(
+        `Project path: ${projectPath}\n\nTask: ${task}\n\nExplore as needed, then submit the plan.`,
+        { ...runOptions, schema: PlanDraftSchema }
+      );
+      return Plan.fromDraft(draft);
+    } finally {
+      await agent.close();
+    }
+  }
+};
@@ -0,0 +1,83 @@
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { AgentHooks } from '../agent/AgentHooks.js';
+
+/**
+ * Options passed to plugin factories
+ */
+export interface PluginOptions {
+  projectPath: string;
+  verbose: boolean;
+}
+
+/**
+ * What a plugin module may export as default (or as `hooks`):
+ * a hooks object, an array of them, or a (possibly async) factory returning either
+ */
+export type PluginExport =
+  | AgentHooks
+  | AgentHooks[]
+  | ((options: PluginOptions) => AgentHooks | AgentHooks[] | Promise<AgentHooks | AgentHooks[]>);
+
+const HOOK_NAMES: (keyof AgentHooks)[] = [
+  'beforeCompletion',
+  'afterCompletion',
+  'beforeToolCall',
+  'afterToolCall',
+  'onFinish'
+];
+
+/**
+ * Loads agent hooks from plugin modules given on the command line
+ */
+export const PluginLoader = {
+  /**
+   * Load one plugin by file path (relative to cwd) or package name
+   */
+  async load(specifier: string, options: PluginOptions): Promise<AgentHooks[]> {
+    const isPath = specifier.startsWith('.') || specifier.startsWith('/') || path.isAbsolute(specifier);
+    const url = isPath ? pathToFileURL(path.resolve(process.cwd(), specifier)).href : specifier;
+
+    let module: Record<string, unknown>;
+    try {
+      module = await import(url);
+    } catch (error) {
+      throw new Error(`Failed to load plugin '${specifier}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const exported = (module.default ?? module.hooks) as PluginExport | undefined;
+    if (!exported) {
+      throw new Error(`Plugin '${specifier}' has no default export or 'hooks' export`);
+    }
+
+    const resolved = typeof exported === 'function' ? await exported(options) : exported;
+    const hooks = Array.isArray(resolved) ? resolved : [resolved];
+
+    for (const hook of hooks) {
+      if (!this.isHooks(hook)) {
+        throw new Error(`Plugin '${specifier}' does not export any of: ${HOOK_NAMES.join(', ')}`);
+      }
+      // Default the name to the module so logs and vetoes are attributable
+      hook.name = hook.name ?? path.basename(specifier);
+    }
+
+    return hooks;
+  },
+
+  /**
+   * Load several plugins in order
+   */
+  async loadAll(specifiers: string[], options: PluginOptions): Promise<AgentHooks[]> {
+    const hooks: AgentHooks[] = [];
+    for (const specifier of specifiers) {
+      hooks.push(...(await this.load(specifier, options)));
+    }
+    return hooks;
+  },
+
+  isHooks(value: unknown): value is AgentHooks {
+    return typeof value === 'object' &&
+      value !== null &&
+      HOOK_NAMES.some((name) => typeof (value as Record<string, unknown>)[name] === 'function');
+  }
+};
@@ -0,0 +1,73 @@
+import OpenAI from 'openai';
+import { Message, ToolCall } from '../types/Message.js';
+
+/**
+ * Token usage reported by a single completion
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Provider-agnostic chat completion request
+ */
+export interface CompletionRequest {
+  model: string;
+  messages: Message[];
+  tools?: OpenAI.Chat.Completions.ChatCompletionTool[];
+  /** 'none' keeps the tool definitions but forbids calling them (default: 'auto') */
+  toolChoice?: 'auto' | 'none';
+  signal?: AbortSignal;
+}
+
+/**
+ * Assistant message returned by a provider
+ */
+export interface CompletionMessage {
+  content: string | null;
+  tool_calls?: ToolCall[];
+}
+
+/**
+ * Provider-agnostic chat completion response
+ */
+export interface CompletionResponse {
+  message: CompletionMessage;
+  usage?: TokenUsage;
+  finishReason?: string;
+}
+
+/**
+ * Callbacks invoked while a completion is being produced
+ */
+export interface CompletionCallbacks {
+  onContentDelta?(delta: string): void;
+}
+
+/**
+ * Backend that turns a conversation into the next assistant message
+ * Implementations: OpenAI, OpenAI-compatible servers (llama.cpp, Ollama, ...) and scripted fakes
+ */
+export interface ModelProvider {
+  readonly name: string;
+  complete(request: CompletionRequest, callbacks?: CompletionCallbacks): Promise<CompletionResponse>;
+}
+
+/**
+ * Error raised by a provider, normalized across backends
+ */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    /** HTTP status, undefined for connection errors and timeouts */
+    public status?: number,
+    /** Server-requested wait before retrying (from Retry-After headers) */
+    public retryAfterMs?: number,
+    public cause?: unknown
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
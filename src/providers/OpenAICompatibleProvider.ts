@@ -0,0 +1,29 @@
+import { OpenAIProvider } from './OpenAIProvider.js';
+
+/**
+ * OpenAI-compatible provider options
+ */
+export interface OpenAICompatibleProviderOptions {
+  baseURL: string;
+  apiKey?: string;
+  includeUsage?: boolean;
+}
+
+/**
+ * Provider for local or self-hosted servers exposing the OpenAI API
+ * (llama.cpp server, Ollama, vLLM, LM Studio, ...)
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name: string;
+
+  constructor(options: OpenAICompatibleProviderOptions) {
+    super({
+      // Most local servers ignore the key, but the SDK requires one
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: options.baseURL,
+      // Older local servers reject stream_options
+      includeUsage: options.includeUsage ?? false
+    });
+    this.name = `openai-compatible(${options.baseURL})`;
+  }
+}
@@ -0,0 +1,142 @@
+import OpenAI from 'openai';
+import {
+  ModelProvider,
+  CompletionRequest,
+  CompletionResponse,
+  CompletionCallbacks,
+  ProviderError
+} from './ModelProvider.js';
+
+/**
+ * OpenAI provider options
+ */
+export interface OpenAIProviderOptions {
+  apiKey: string;
+  baseURL?: string;
+  /** Ask the server to append token usage to the stream (default: true) */
+  includeUsage?: boolean;
+}
+
+/**
+ * Provider backed by the OpenAI chat completions API
+ */
+export class OpenAIProvider implements ModelProvider {
+  readonly name: string = 'openai';
+  private client: OpenAI;
+  private includeUsage: boolean;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+      // Retries are handled by the agent's retry policy
+      maxRetries: 0
+    });
+    this.includeUsage = options.includeUsage ?? true;
+  }
+
+  async complete(
+    request: CompletionRequest,
+    callbacks?: CompletionCallbacks
+  ): Promise<CompletionResponse> {
+    try {
+      return await this.stream(request, callbacks);
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+  }
+
+  private async stream(
+    request: CompletionRequest,
+    callbacks?: CompletionCallbacks
+  ): Promise<CompletionResponse> {
+    const hasTools = request.tools !== undefined && request.tools.length > 0;
+
+    const stream = this.client.beta.chat.completions.stream({
+      model: request.model,
+      messages: request.messages as OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+      tools: hasTools ? request.tools : undefined,
+      tool_choice: hasTools ? request.toolChoice ?? 'auto' : undefined,
+      stream_options: this.includeUsage ? { include_usage: true } : undefined
+    }, { signal: request.signal });
+
+    stream.on('content', (delta) => {
+      callbacks?.onContentDelta?.(delta);
+    });
+
+    const completion = await stream.finalChatCompletion();
+    const choice = completion.choices[0];
+    if (!choice?.message) {
+      throw new Error('No message in completion');
+    }
+
+    const usage = completion.usage;
+
+    return {
+      message: {
+        content: choice.message.content,
+        // Strip SDK-only fields (parsed_arguments) so messages can be sent back as-is
+        tool_calls: choice.message.tool_calls?.map((toolCall) => ({
+          id: toolCall.id,
+          type: 'function' as const,
+          function: {
+            name: toolCall.function.name,
+            arguments: toolCall.function.arguments
+          }
+        }))
+      },
+      usage: usage
+        ? {
+            promptTokens: usage.prompt_tokens,
+            completionTokens: usage.completion_tokens,
+            totalTokens: usage.total_tokens
+          }
+        : undefined,
+      finishReason: choice.finish_reason
+    };
+  }
+
+  /**
+   * Normalize SDK errors so the agent can decide whether to retry
+   */
+  private toProviderError(error: unknown): ProviderError {
+    if (error instanceof OpenAI.APIError) {
+      return new ProviderError(
+        error.message,
+        error.status,
+        this.parseRetryAfter(error.headers),
+        error
+      );
+    }
+
+    return new ProviderError(
+      error instanceof Error ? error.message : String(error),
+      undefined,
+      undefined,
+      error
+    );
+  }
+
+  /**
+   * Read `retry-after-ms` or `retry-after` (seconds or HTTP date)
+   */
+  private parseRetryAfter(headers: Record<string, string | null | undefined> | undefined): number | undefined {
+    const retryAfterMs = Number(headers?.['retry-after-ms'] ?? NaN);
+    if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+      return retryAfterMs;
+    }
+
+    const retryAfter = headers?.['retry-after'];
+    if (!retryAfter) {
+      return undefined;
+    }
+
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+      return seconds * 1000;
+    }
+
+    const date = Date.parse(retryAfter);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+}
@@ -0,0 +1,28 @@
+import { ModelProvider } from './ModelProvider.js';
+import { OpenAIProvider } from './OpenAIProvider.js';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider.js';
+
+/**
+ * Builds model providers from environment variables
+ */
+export const ProviderFactory = {
+  /**
+   * Create a provider from `<PREFIX>_BASE_URL` and `<PREFIX>_API_KEY`
+   * A base URL selects an OpenAI-compatible server, otherwise OpenAI is used
+   * Returns null when neither is configured
+   */
+  fromEnv(prefix: string, env: NodeJS.ProcessEnv = process.env): ModelProvider | null {
+    const baseURL = env[`${prefix}_BASE_URL`];
+    const apiKey = env[`${prefix}_API_KEY`];
+
+    if (baseURL) {
+      return new OpenAICompatibleProvider({ baseURL, apiKey });
+    }
+
+    if (apiKey) {
+      return new OpenAIProvider({ apiKey });
+    }
+
+    return null;
+  }
+};
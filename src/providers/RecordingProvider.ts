@@ -0,0 +1,42 @@
+import {
+  ModelProvider,
+  CompletionRequest,
+  CompletionResponse,
+  CompletionCallbacks
+} from './ModelProvider.js';
+import { Cassette } from '../cassette/Cassette.js';
+
+/**
+ * Wraps a real provider and records every successful completion to a cassette
+ * Failed requests are not recorded, so retries replay as a single success
+ */
+export class RecordingProvider implements ModelProvider {
+  readonly name: string;
+
+  constructor(
+    private inner: ModelProvider,
+    private cassette: Cassette
+  ) {
+    this.name = inner.name;
+  }
+
+  async complete(
+    request: CompletionRequest,
+    callbacks?: CompletionCallbacks
+  ): Promise<CompletionResponse> {
+    const response = await this.inner.complete(request, callbacks);
+
+    this.cassette.record({
+      type: 'completion',
+      request: {
+        model: request.model,
+        messages: request.messages,
+        tools: request.tools,
+        toolChoice: request.toolChoice
+      },
+      response
+    });
+
+    return response;
+  }
+}
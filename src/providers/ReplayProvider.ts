@@ -0,0 +1,34 @@
+import {
+  ModelProvider,
+  CompletionRequest,
+  CompletionResponse,
+  CompletionCallbacks
+} from './ModelProvider.js';
+import { Cassette } from '../cassette/Cassette.js';
+
+/**
+ * Serves completions from a recorded cassette - no network access
+ * A request that differs from the recording throws CassetteMismatchError
+ */
+export class ReplayProvider implements ModelProvider {
+  readonly name = 'replay';
+
+  constructor(private cassette: Cassette) {}
+
+  async complete(
+    request: CompletionRequest,
+    callbacks?: CompletionCallbacks
+  ): Promise<CompletionResponse> {
+    if (request.signal?.aborted) {
+      throw new Error('Request aborted');
+    }
+
+    const response = this.cassette.replayCompletion(request);
+
+    if (response.message.content) {
+      callbacks?.onContentDelta?.(response.message.content);
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { AIAgent } from '../agent/AIAgent.js';
+import { NodeFileSystemProvider } from '../core/FileSystemProvider.js';
+import { ReadFileTool } from '../tools/FileSystemTools.js';
+import { Scripted, ScriptedProvider } from './ScriptedProvider.js';
+
+describe('ScriptedProvider', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'scripted-'));
+    await fs.writeFile(path.join(dir, 'notes.txt'), 'The answer is 42', 'utf-8');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('drives an agent run through a tool call to the final answer', async () => {
+    const provider = new ScriptedProvider([
+      Scripted.toolCall('read__file', { path: path.join(dir, 'notes.txt') }),
+      (request) => {
+        const result = request.messages[request.messages.length - 1];
+        expect(result.role).toBe('tool');
+        expect(result.content).toContain('The answer is 42');
+        return Scripted.text('The answer is 42.');
+      }
+    ]);
+    const agent = new AIAgent({
+      provider,
+      systemPrompt: 'You are a test agent.',
+      tools: [new ReadFileTool(new NodeFileSystemProvider(false))]
+    });
+
+    const answer = await agent.run('What is the answer?');
+
+    expect(answer).toBe('The answer is 42.');
+    expect(provider.remaining).toBe(0);
+    expect(provider.requests).toHaveLength(2);
+    expect(provider.requests[0].messages.map((message) => message.role)).toEqual(['system', 'user']);
+  });
+
+  it('fails when the script runs out of responses', async () => {
+    const provider = new ScriptedProvider([Scripted.toolCall('read__file', { path: path.join(dir, 'notes.txt') })]);
+    const agent = new AIAgent({
+      provider,
+      systemPrompt: 'You are a test agent.',
+      tools: [new ReadFileTool(new NodeFileSystemProvider(false))]
+    });
+
+    await expect(agent.run('What is the answer?')).rejects.toThrow('ScriptedProvider exhausted after 1 responses');
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  ModelProvider,
+  CompletionRequest,
+  CompletionResponse,
+  CompletionCallbacks
+} from './ModelProvider.js';
+
+/**
+ * One scripted turn: a fixed response or a function of the request
+ */
+export type ScriptedStep =
+  | CompletionResponse
+  | ((request: CompletionRequest) => CompletionResponse | Promise<CompletionResponse>);
+
+/**
+ * Fake provider that replays a fixed script of responses
+ * Intended for tests - no network access, fully deterministic
+ */
+export class ScriptedProvider implements ModelProvider {
+  readonly name = 'scripted';
+  readonly requests: CompletionRequest[] = [];
+  private steps: ScriptedStep[];
+
+  constructor(steps: ScriptedStep[]) {
+    this.steps = [...steps];
+  }
+
+  async complete(
+    request: CompletionRequest,
+    callbacks?: CompletionCallbacks
+  ): Promise<CompletionResponse> {
+    if (request.signal?.aborted) {
+      throw new Error('Request aborted');
+    }
+
+    // Snapshot the messages - the agent keeps mutating its history
+    this.requests.push({ ...request, messages: [...request.messages] });
+
+    const step = this.steps.shift();
+    if (!step) {
+      throw new Error(`ScriptedProvider exhausted after ${this.requests.length - 1} responses`);
+    }
+
+    const response = typeof step === 'function' ? await step(request) : step;
+
+    if (response.message.content) {
+      callbacks?.onContentDelta?.(response.message.content);
+    }
+
+    return response;
+  }
+
+  /**
+   * Number of scripted responses not consumed yet
+   */
+  get remaining(): number {
+    return this.steps.length;
+  }
+}
+
+/**
+ * Helpers for building scripted responses
+ */
+export const Scripted = {
+  text(content: string): CompletionResponse {
+    return { message: { content }, finishReason: 'stop' };
+  },
+
+  toolCall(name: string, args: Record<string, any>, id: string = `call_${name}`): CompletionResponse {
+    return {
+      message: {
+        content: null,
+        tool_calls: [
+          { id, type: 'function', function: { name, arguments: JSON.stringify(args) } }
+        ]
+      },
+      finishReason: 'tool_calls'
+    };
+  }
+};
@@ -0,0 +1,244 @@
+import * as readline from 'readline';
+import { readFileSync, appendFileSync, mkdirSync } from 'fs';
+import path from 'path';
+import os from 'os';
+import chalk from 'chalk';
+import { AIAgent, AgentAbortedError } from '../agent/AIAgent.js';
+
+/**
+ * Options for the chat REPL
+ */
+export interface ChatReplOptions {
+  /** Input history file (default: AGENT_HISTORY_FILE or ~/.typescript-ai-agent/history) */
+  historyFile?: string;
+  /** Turn user input into the agent message, e.g. to add project context to the first turn */
+  formatInput?: (input: string, turn: number) => string;
+  /** Called with the answer of every successful turn */
+  onAnswer?: (answer: string) => void;
+  /** Called when a turn fails; return false to leave the REPL */
+  onError?: (error: unknown) => boolean;
+}
+
+const MAX_HISTORY = 500;
+
+const HELP = `Commands:
+  /help   Show this help
+  /exit   Leave (same as Ctrl-D)
+
+Input:
+  End a line with \\ to continue on the next line
+  Wrap a block in """ lines to paste multi-line text
+  Ctrl-C clears the line, or stops the agent while it is working`;
+
+/**
+ * Multi-turn prompt loop on a single agent
+ * The conversation carries over between turns; Ctrl-D or /exit ends the loop
+ */
+export class ChatRepl {
+  private history: string[] = [];
+  private readonly historyFile: string;
+  private pipedLines: AsyncIterator<string> | null = null;
+  private turn = 0;
+
+  constructor(
+    private agent: AIAgent,
+    private options: ChatReplOptions = {}
+  ) {
+    this.historyFile = options.historyFile ||
+      process.env.AGENT_HISTORY_FILE ||
+      path.join(os.homedir(), '.typescript-ai-agent', 'history');
+    this.loadHistory();
+  }
+
+  /**
+   * Run until the user exits; an initial input is sent as the first turn
+   */
+  async start(initialInput?: string): Promise<void> {
+    console.log(chalk.gray('Chat mode - type /help for commands, Ctrl-D to exit'));
+
+    if (initialInput) {
+      await this.runTurn(initialInput);
+    }
+
+    while (true) {
+      const input = await this.readInput();
+      if (input === null) {
+        console.log('');
+        return;
+      }
+
+      const trimmed = input.trim();
+      if (trimmed.length === 0) {
+        continue;
+      }
+      if (trimmed === '/exit' || trimmed === '/quit') {
+        return;
+      }
+      if (trimmed === '/help') {
+        console.log(HELP);
+        continue;
+      }
+
+      this.remember(trimmed);
+      if (!(await this.runTurn(trimmed))) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Send one message; returns false if the REPL should stop
+   * The first Ctrl-C aborts the turn, a second one exits the process
+   */
+  private async runTurn(input: string): Promise<boolean> {
+    const controller = new AbortController();
+    let interrupts = 0;
+    const onSigint = () => {
+      interrupts++;
+      if (interrupts === 1) {
+        console.log(chalk.yellow('\n⏹  Stopping the agent (press Ctrl-C again to force exit)'));
+        controller.abort();
+        return;
+      }
+      console.log(chalk.red('\n⏹  Forced exit'));
+      process.exit(130);
+    };
+    process.on('SIGINT', onSigint);
+
+    const message = this.options.formatInput ? this.options.formatInput(input, this.turn) : input;
+    this.turn++;
+
+    try {
+      const answer = await this.agent.run(message, { signal: controller.signal });
+      console.log('');
+      console.log(answer);
+      console.log('');
+      this.options.onAnswer?.(answer);
+      return true;
+    } catch (error) {
+      if (error instanceof AgentAbortedError) {
+        console.log(chalk.yellow(`\n${error.message} - the conversation is kept, continue with a new message`));
+        return true;
+      }
+      if (this.options.onError) {
+        return this.options.onError(error);
+      }
+      console.error(chalk.red(`\nERROR: ${error instanceof Error ? error.message : String(error)}`));
+      return true;
+    } finally {
+      process.off('SIGINT', onSigint);
+    }
+  }
+
+  /**
+   * Read one message, joining continuation lines and """ blocks
+   * Returns null on end of input (Ctrl-D)
+   */
+  private async readInput(): Promise<string | null> {
+    const first = await this.readLine(chalk.cyan('> '));
+    if (first === null) {
+      return null;
+    }
+
+    if (first.trim() === '"""') {
+      const lines: string[] = [];
+      while (true) {
+        const line = await this.readLine(chalk.gray('… '));
+        if (line === null || line.trim() === '"""') {
+          return lines.join('\n');
+        }
+        lines.push(line);
+      }
+    }
+
+    let input = first;
+    while (input.endsWith('\\')) {
+      const line = await this.readLine(chalk.gray('… '));
+      input = input.slice(0, -1) + (line === null ? '' : '\n' + line);
+      if (line === null) {
+        break;
+      }
+    }
+    return input;
+  }
+
+  /**
+   * Prompt for a single line
+   * On a terminal each prompt gets its own readline interface so confirmation
+   * menus shown during a turn have exclusive use of stdin
+   */
+  private readLine(prompt: string): Promise<string | null> {
+    if (!process.stdin.isTTY) {
+      return this.readPipedLine(prompt);
+    }
+
+    return new Promise((resolve) => {
+      const rl = readline.createInterface({
+        input: process.stdin,
+        output: process.stdout,
+        history: [...this.history],
+        historySize: MAX_HISTORY,
+        removeHistoryDuplicates: true
+      });
+
+      let settled = false;
+      const settle = (value: string | null) => {
+        if (!settled) {
+          settled = true;
+          rl.close();
+          resolve(value);
+        }
+      };
+
+      // Ctrl-C discards the current line
+      rl.on('SIGINT', () => {
+        process.stdout.write(chalk.gray('^C (Ctrl-D or /exit to quit)\n'));
+        settle('');
+      });
+      rl.on('close', () => settle(null));
+      rl.question(prompt, (answer) => settle(answer));
+    });
+  }
+
+  private async readPipedLine(prompt: string): Promise<string | null> {
+    if (!this.pipedLines) {
+      const rl = readline.createInterface({ input: process.stdin, terminal: false });
+      this.pipedLines = rl[Symbol.asyncIterator]();
+    }
+
+    process.stdout.write(prompt);
+    const next = await this.pipedLines.next();
+    if (next.done) {
+      return null;
+    }
+    process.stdout.write(next.value + '\n');
+    return next.value;
+  }
+
+  private loadHistory(): void {
+    try {
+      this.history = readFileSync(this.historyFile, 'utf-8')
+        .split('\n')
+        .filter((line) => line.length > 0)
+        .reverse()
+        .slice(0, MAX_HISTORY);
+    } catch {
+      this.history = [];
+    }
+  }
+
+  /**
+   * Add an entry to the in-memory and on-disk history (newest first in memory)
+   */
+  private remember(input: string): void {
+    const entry = input.replace(/\s*\n\s*/g, ' ');
+    this.history = [entry, ...this.history.filter((h) => h !== entry)].slice(0, MAX_HISTORY);
+
+    try {
+      mkdirSync(path.dirname(this.historyFile), { recursive: true });
+      appendFileSync(this.historyFile, entry + '\n', 'utf-8');
+    } catch {
+      // History is a convenience, never fail a turn over it
+    }
+  }
+}
@@ -0,0 +1,176 @@
+import { z, ZodFirstPartyTypeKind, ZodTypeAny } from 'zod';
+
+/**
+ * JSON Schema object as used for OpenAI function parameters
+ */
+export type JsonSchemaObject = Record<string, any>;
+
+/**
+ * Conversion of zod schemas to JSON Schema
+ * Covers the subset of zod that maps cleanly onto function-calling parameters;
+ * anything else (functions, promises, intersections, ...) throws.
+ */
+export const JsonSchema = {
+  fromZod(schema: ZodTypeAny): JsonSchemaObject {
+    return convert(schema);
+  },
+
+  /**
+   * Whether a schema describes a plain object (function parameters must be objects)
+   */
+  isObject(schema: ZodTypeAny): boolean {
+    return unwrap(schema)._def.typeName === ZodFirstPartyTypeKind.ZodObject;
+  },
+
+  /**
+   * Human-readable list of validation issues, one per line
+   */
+  formatIssues(error: z.ZodError): string {
+    return error.issues
+      .map((issue) => `- ${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+      .join('\n');
+  }
+};
+
+/**
+ * Strip wrappers that do not change the JSON shape
+ */
+function unwrap(schema: ZodTypeAny): ZodTypeAny {
+  const def = schema._def;
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodOptional:
+    case ZodFirstPartyTypeKind.ZodNullable:
+    case ZodFirstPartyTypeKind.ZodDefault:
+    case ZodFirstPartyTypeKind.ZodReadonly:
+      return unwrap(def.innerType);
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return unwrap(def.schema);
+    case ZodFirstPartyTypeKind.ZodBranded:
+      return unwrap(def.type);
+    default:
+      return schema;
+  }
+}
+
+function convert(schema: ZodTypeAny): JsonSchemaObject {
+  const def = schema._def;
+  const withDescription = (json: JsonSchemaObject): JsonSchemaObject =>
+    schema.description ? { ...json, description: schema.description } : json;
+
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodString: {
+      const json: JsonSchemaObject = { type: 'string' };
+      for (const check of def.checks) {
+        if (check.kind === 'min') json.minLength = check.value;
+        if (check.kind === 'max') json.maxLength = check.value;
+        if (check.kind === 'regex') json.pattern = check.regex.source;
+        if (check.kind === 'email' || check.kind === 'url' || check.kind === 'uuid') {
+          json.format = check.kind === 'url' ? 'uri' : check.kind;
+        }
+      }
+      return withDescription(json);
+    }
+
+    case ZodFirstPartyTypeKind.ZodNumber: {
+      const json: JsonSchemaObject = { type: 'number' };
+      for (const check of def.checks) {
+        if (check.kind === 'int') json.type = 'integer';
+        if (check.kind === 'min') json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        if (check.kind === 'max') json[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+      }
+      return withDescription(json);
+    }
+
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return withDescription({ type: 'boolean' });
+
+    case ZodFirstPartyTypeKind.ZodNull:
+      return withDescription({ type: 'null' });
+
+    case ZodFirstPartyTypeKind.ZodAny:
+    case ZodFirstPartyTypeKind.ZodUnknown:
+      return withDescription({});
+
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return withDescription({ const: def.value });
+
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return withDescription({ type: 'string', enum: [...def.values] });
+
+    case ZodFirstPartyTypeKind.ZodNativeEnum: {
+      // Numeric TypeScript enums also map values back to names; skip those entries
+      const values: Record<string, string | number> = def.values;
+      const keys = Object.keys(values).filter((key) => typeof values[values[key]] !== 'number');
+      return withDescription({ enum: keys.map((key) => values[key]) });
+    }
+
+    case ZodFirstPartyTypeKind.ZodArray: {
+      const json: JsonSchemaObject = { type: 'array', items: convert(def.type) };
+      if (def.minLength) json.minItems = def.minLength.value;
+      if (def.maxLength) json.maxItems = def.maxLength.value;
+      if (def.exactLength) {
+        json.minItems = def.exactLength.value;
+        json.maxItems = def.exactLength.value;
+      }
+      return withDescription(json);
+    }
+
+    case ZodFirstPartyTypeKind.ZodTuple:
+      return withDescription({
+        type: 'array',
+        items: def.items.map((item: ZodTypeAny) => convert(item)),
+        minItems: def.items.length,
+        maxItems: def.items.length
+      });
+
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape: Record<string, ZodTypeAny> = def.shape();
+      const properties: Record<string, JsonSchemaObject> = {};
+      const required: string[] = [];
+
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = convert(value);
+        if (!value.isOptional()) {
+          required.push(key);
+        }
+      }
+
+      const catchall = def.catchall as ZodTypeAny;
+      const additionalProperties = catchall._def.typeName !== ZodFirstPartyTypeKind.ZodNever
+        ? convert(catchall)
+        : def.unknownKeys === 'passthrough';
+
+      return withDescription({ type: 'object', properties, required, additionalProperties });
+    }
+
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return withDescription({ type: 'object', additionalProperties: convert(def.valueType) });
+
+    case ZodFirstPartyTypeKind.ZodUnion:
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion: {
+      const options: ZodTypeAny[] = Array.isArray(def.options) ? def.options : Array.from(def.options.values());
+      return withDescription({ anyOf: options.map((option) => convert(option)) });
+    }
+
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return withDescription(convert(def.innerType));
+
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return withDescription({ anyOf: [convert(def.innerType), { type: 'null' }] });
+
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return withDescription({ ...convert(def.innerType), default: def.defaultValue() });
+
+    case ZodFirstPartyTypeKind.ZodReadonly:
+      return withDescription(convert(def.innerType));
+
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return withDescription(convert(def.schema));
+
+    case ZodFirstPartyTypeKind.ZodBranded:
+      return withDescription(convert(def.type));
+
+    default:
+      throw new Error(`Unsupported zod type for JSON Schema conversion: ${def.typeName}`);
+  }
+}
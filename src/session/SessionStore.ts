@@ -0,0 +1,250 @@
+import fs from 'fs/promises';
+import { appendFileSync, mkdirSync } from 'fs';
+import path from 'path';
+import os from 'os';
+import { randomBytes } from 'crypto';
+import { AIAgent } from '../agent/AIAgent.js';
+import { Message } from '../types/Message.js';
+import { Result } from '../types/Result.js';
+import { Plan } from '../plan/Plan.js';
+
+/**
+ * Descriptive data stored at the top of every session file
+ */
+export interface SessionMetadata {
+  id: string;
+  createdAt: string;
+  projectPath: string;
+  task: string;
+  model: string;
+  provider?: string;
+}
+
+/**
+ * Lifecycle status of a session
+ */
+export type SessionStatus = 'running' | 'completed' | 'failed' | 'interrupted';
+
+/**
+ * One line of a session JSONL file
+ */
+export type SessionRecord =
+  | { type: 'metadata'; metadata: SessionMetadata }
+  | { type: 'message'; timestamp: string; message: Message }
+  | { type: 'status'; timestamp: string; status: SessionStatus; detail?: string }
+  | { type: 'plan'; timestamp: string; plan: Plan };
+
+/**
+ * Fully loaded session
+ */
+export interface LoadedSession {
+  metadata: SessionMetadata;
+  messages: Message[];
+  status: SessionStatus;
+  updatedAt: string;
+  /** Latest state of the approved plan (--plan runs only) */
+  plan?: Plan;
+}
+
+/**
+ * Session overview for listings
+ */
+export interface SessionSummary {
+  metadata: SessionMetadata;
+  status: SessionStatus;
+  messageCount: number;
+  updatedAt: string;
+}
+
+/**
+ * Append-only JSONL log of one agent conversation
+ * Writes are synchronous so nothing is lost if the process dies mid-run
+ */
+export class Session {
+  private recordedMessages: number;
+
+  constructor(
+    readonly metadata: SessionMetadata,
+    readonly filePath: string,
+    recordedMessages: number = 0
+  ) {
+    this.recordedMessages = recordedMessages;
+  }
+
+  get id(): string {
+    return this.metadata.id;
+  }
+
+  /**
+   * Persist the agent's messages as they are added
+   * Messages the agent already holds but were not recorded yet are written first
+   * Returns a function that stops recording
+   */
+  attach(agent: AIAgent): () => void {
+    for (const message of agent.getMessages().slice(this.recordedMessages)) {
+      this.recordMessage(message);
+    }
+
+    return agent.on((event) => {
+      if (event.type === 'message') {
+        this.recordMessage(event.message);
+      }
+    });
+  }
+
+  recordMessage(message: Message): void {
+    this.append({ type: 'message', timestamp: new Date().toISOString(), message });
+    this.recordedMessages++;
+  }
+
+  recordStatus(status: SessionStatus, detail?: string): void {
+    this.append({ type: 'status', timestamp: new Date().toISOString(), status, detail });
+  }
+
+  /**
+   * Store the current plan; the last recorded plan wins on load
+   */
+  recordPlan(plan: Plan): void {
+    this.append({ type: 'plan', timestamp: new Date().toISOString(), plan });
+  }
+
+  append(record: SessionRecord): void {
+    appendFileSync(this.filePath, JSON.stringify(record) + '\n', 'utf-8');
+  }
+}
+
+/**
+ * Stores sessions as `<sessionId>.jsonl` files in a directory
+ */
+export class SessionStore {
+  constructor(readonly directory: string = SessionStore.defaultDirectory()) {}
+
+  /**
+   * AGENT_SESSIONS_DIR or ~/.typescript-ai-agent/sessions
+   */
+  static defaultDirectory(): string {
+    return process.env.AGENT_SESSIONS_DIR ||
+      path.join(os.homedir(), '.typescript-ai-agent', 'sessions');
+  }
+
+  /**
+   * Start a new session file
+   */
+  create(details: Omit<SessionMetadata, 'id' | 'createdAt'>): Session {
+    mkdirSync(this.directory, { recursive: true });
+
+    const now = new Date();
+    const id = `${now.toISOString().replace(/[:.]/g, '-')}-${randomBytes(3).toString('hex')}`;
+    const metadata: SessionMetadata = { id, createdAt: now.toISOString(), ...details };
+
+    const session = new Session(metadata, this.filePath(id));
+    session.append({ type: 'metadata', metadata });
+    session.recordStatus('running');
+    return session;
+  }
+
+  /**
+   * Load a session's metadata and messages
+   */
+  async load(id: string): Promise<Result<LoadedSession, Error>> {
+    if (!/^[\w-]+$/.test(id)) {
+      return Result.err(new Error(`Invalid session id: ${id}`));
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath(id), 'utf-8');
+    } catch {
+      return Result.err(new Error(`Session not found: ${id} (looked in ${this.directory})`));
+    }
+
+    return this.parse(id, content);
+  }
+
+  /**
+   * Reopen a stored session for appending (used by --resume)
+   */
+  async open(id: string): Promise<Result<{ session: Session; loaded: LoadedSession }, Error>> {
+    const loaded = await this.load(id);
+    if (!loaded.success) {
+      return loaded;
+    }
+
+    const session = new Session(loaded.value.metadata, this.filePath(id), loaded.value.messages.length);
+    return Result.ok({ session, loaded: loaded.value });
+  }
+
+  /**
+   * List stored sessions, most recent first
+   */
+  async list(): Promise<SessionSummary[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const summaries: SessionSummary[] = [];
+    for (const entry of entries.filter((e) => e.endsWith('.jsonl'))) {
+      const loaded = await this.load(path.basename(entry, '.jsonl'));
+      if (loaded.success) {
+        const { metadata, status, messages, updatedAt } = loaded.value;
+        summaries.push({ metadata, status, messageCount: messages.length, updatedAt });
+      }
+    }
+
+    return summaries.sort((a, b) => b.metadata.createdAt.localeCompare(a.metadata.createdAt));
+  }
+
+  private filePath(id: string): string {
+    return path.join(this.directory, `${id}.jsonl`);
+  }
+
+  private parse(id: string, content: string): Result<LoadedSession, Error> {
+    let metadata: SessionMetadata | null = null;
+    let status: SessionStatus = 'running';
+    let updatedAt = '';
+    let plan: Plan | undefined;
+    const messages: Message[] = [];
+
+    const lines = content.split('\n').filter((line) => line.trim().length > 0);
+    for (const [index, line] of lines.entries()) {
+      let record: SessionRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        // A crash can leave a partially written last line
+        if (index === lines.length - 1) {
+          break;
+        }
+        return Result.err(new Error(`Corrupt session ${id}: invalid JSON on line ${index + 1}`));
+      }
+
+      switch (record.type) {
+        case 'metadata':
+          metadata = record.metadata;
+          updatedAt = record.metadata.createdAt;
+          break;
+        case 'message':
+          messages.push(record.message);
+          updatedAt = record.timestamp;
+          break;
+        case 'status':
+          status = record.status;
+          updatedAt = record.timestamp;
+          break;
+        case 'plan':
+          plan = record.plan;
+          updatedAt = record.timestamp;
+          break;
+      }
+    }
+
+    if (!metadata) {
+      return Result.err(new Error(`Corrupt session ${id}: missing metadata`));
+    }
+
+    return Result.ok({ metadata, messages, status, updatedAt, plan });
+  }
+}
@@ -1,6 +1,9 @@
 import { AIAgent } from '../agent/AIAgent.js';
-import { Tool } from '../core/Tool.js';
+import { Tool, ToolMetadata } from '../core/Tool.js';
 import { FileSystemProvider } from '../core/FileSystemProvider.js';
+import { ModelProvider } from '../providers/ModelProvider.js';
+import { UsageTracker } from '../usage/UsageTracker.js';
+import { AgentHooks } from '../agent/AgentHooks.js';
 import { ListDirectoryTool, ReadFileTool } from '../tools/FileSystemTools.js';
 
 /**
@@ -45,26 +48,52 @@ SUGGESTION: [hints about where else to look or what else to try]
 
 Remember: You are a focused search specialist. Return results quickly and let the main agent handle the broader task.`;
 
+/**
+ * Default model for the code search agent
+ */
+export const CODE_SEARCH_DEFAULT_MODEL = 'gpt-4o-mini'; // Use smaller/cheaper model for focused tasks
+
+/**
+ * Options for the code search agent
+ */
+export interface CodeSearchAgentOptions {
+  verbose?: boolean;
+  model?: string;
+  /** Tracker shared with the main agent, usage is reported as 'code-search' */
+  usage?: UsageTracker;
+  /** More tools to search with (e.g. from MCP servers); only read-only ones are used */
+  additionalTools?: Tool[];
+  /** Hooks run by the sub-agent too (redaction, policies, ...); their context's agentName is 'code-search' */
+  hooks?: AgentHooks[];
+  /** Show images read by read__file to the model (default: true; false for text-only models) */
+  images?: boolean;
+}
+
 /**
  * Create a code search agent for finding code in the codebase
+ * The provider may differ from the main agent's (e.g. a local model for search)
  */
 export function createCodeSearchAgent(
-  apiKey: string,
+  provider: ModelProvider,
   fileSystem: FileSystemProvider,
-  verbose: boolean = false
+  options: CodeSearchAgentOptions = {}
 ): AIAgent {
   // Tools for code search agent (read-only)
   const tools: Tool[] = [
     new ListDirectoryTool(fileSystem),
-    new ReadFileTool(fileSystem)
+    new ReadFileTool(fileSystem, { images: options.images }),
+    ...(options.additionalTools ?? []).filter(ToolMetadata.isReadOnly)
   ];
 
   return new AIAgent({
-    apiKey,
-    model: 'gpt-4o-mini', // Use smaller/cheaper model for focused tasks
+    provider,
+    model: options.model || CODE_SEARCH_DEFAULT_MODEL,
     systemPrompt: CODE_SEARCH_SYSTEM_PROMPT,
     tools,
     maxIterations: 15,
-    verbose
+    verbose: options.verbose ?? false,
+    usage: options.usage,
+    hooks: options.hooks,
+    name: 'code-search'
   });
 }
@@ -1,13 +1,16 @@
-import { BaseTool } from '../core/Tool.js';
-import { AIAgent } from '../agent/AIAgent.js';
-import { createCodeSearchAgent } from './CodeSearchAgent.js';
+import { BaseTool, ToolContext, ToolMetadata } from '../core/Tool.js';
+import { ToolResult } from '../core/ToolResult.js';
+import { AgentAbortedError } from '../agent/AIAgent.js';
+import { CassetteMismatchError } from '../cassette/Cassette.js';
+import { createCodeSearchAgent, CodeSearchAgentOptions } from './CodeSearchAgent.js';
 import { FileSystemProvider } from '../core/FileSystemProvider.js';
+import { ModelProvider } from '../providers/ModelProvider.js';
 
 /**
  * Tool that wraps the code search sub-agent
  * Allows the main agent to delegate search tasks to a specialized agent
  */
-export class CodeSearchAgentTool extends BaseTool<{ query: string }, string> {
+export class CodeSearchAgentTool extends BaseTool<{ query: string }, ToolResult> {
   readonly name = '__find_in_codebase_agent__';
   readonly description = `Delegates to a specialized code search agent to find code, functions, classes, or patterns in the codebase. Use this when you need to:
 - Find a specific function or class implementation
@@ -17,17 +20,15 @@ export class CodeSearchAgentTool extends BaseTool<{ query: string }, string> {
 - Find related code across multiple files
 
 The sub-agent will search strategically and return focused results with file locations and code snippets.`;
-
-  private agent: AIAgent;
+  readonly metadata: ToolMetadata = { readOnly: true, category: 'search' };
 
   constructor(
-    apiKey: string,
-    fileSystem: FileSystemProvider,
+    private provider: ModelProvider,
+    private fileSystem: FileSystemProvider,
     _projectPath: string,
-    verbose: boolean = false
+    private options: CodeSearchAgentOptions = {}
   ) {
     super();
-    this.agent = createCodeSearchAgent(apiKey, fileSystem, verbose);
   }
 
   protected getParametersSchema() {
@@ -43,15 +44,25 @@ The sub-agent will search strategically and return focused results with file loc
     };
   }
 
-  async execute(args: { query: string }): Promise<string> {
+  async execute(args: { query: string }, context?: ToolContext): Promise<ToolResult> {
     console.log(`[Sub-Agent] Code Search invoked: "${args.query}"`);
 
     try {
-      const result = await this.agent.run(args.query);
+      // Each search gets its own agent: searches run concurrently, and an agent's
+      // conversation, signal and iteration count belong to one run at a time
+      const agent = createCodeSearchAgent(this.provider, this.fileSystem, this.options);
+      const result = await agent.run(args.query, { signal: context?.signal });
       console.log(`[Sub-Agent] Code Search completed`);
-      return result;
+      return ToolResult.ok(result);
     } catch (error) {
-      return `ERROR: Code search failed: ${error instanceof Error ? error.message : String(error)}`;
+      if (error instanceof AgentAbortedError) {
+        return ToolResult.error('cancelled', 'Code search was cancelled');
+      }
+      if (error instanceof CassetteMismatchError) {
+        // A stale cassette must fail the replay, not become a result the model works around
+        throw error;
+      }
+      return ToolResult.error('tool_failed', `Code search failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 }
@@ -60,10 +71,10 @@ The sub-agent will search strategically and return focused results with file loc
  * Factory function to create code search agent tool
  */
 export function createCodeSearchAgentTool(
-  apiKey: string,
+  provider: ModelProvider,
   fileSystem: FileSystemProvider,
   projectPath: string,
-  verbose: boolean = false
+  options: CodeSearchAgentOptions = {}
 ): CodeSearchAgentTool {
-  return new CodeSearchAgentTool(apiKey, fileSystem, projectPath, verbose);
+  return new CodeSearchAgentTool(provider, fileSystem, projectPath, options);
 }
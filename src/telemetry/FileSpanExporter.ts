@@ -0,0 +1,39 @@
+import { appendFileSync } from 'fs';
+import { core, tracing } from '@opentelemetry/sdk-node';
+
+/**
+ * Writes finished spans as JSON lines to a local file
+ * Handy for inspecting traces without running a collector
+ */
+export class FileSpanExporter implements tracing.SpanExporter {
+  constructor(private filePath: string) {}
+
+  export(
+    spans: tracing.ReadableSpan[],
+    resultCallback: (result: core.ExportResult) => void
+  ): void {
+    try {
+      const lines = spans.map((span) => JSON.stringify({
+        name: span.name,
+        traceId: span.spanContext().traceId,
+        spanId: span.spanContext().spanId,
+        parentSpanId: span.parentSpanId,
+        startTime: core.hrTimeToMilliseconds(span.startTime),
+        durationMs: core.hrTimeToMilliseconds(span.duration),
+        status: span.status,
+        attributes: span.attributes,
+        events: span.events.map((event) => ({ name: event.name, attributes: event.attributes }))
+      }));
+
+      appendFileSync(this.filePath, lines.map((line) => line + '\n').join(''), 'utf-8');
+      resultCallback({ code: core.ExportResultCode.SUCCESS });
+    } catch (error) {
+      resultCallback({
+        code: core.ExportResultCode.FAILED,
+        error: error instanceof Error ? error : new Error(String(error))
+      });
+    }
+  }
+
+  async shutdown(): Promise<void> {}
+}
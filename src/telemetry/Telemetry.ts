@@ -0,0 +1,103 @@
+import { NodeSDK, tracing } from '@opentelemetry/sdk-node';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { FileSpanExporter } from './FileSpanExporter.js';
+
+let sdk: NodeSDK | null = null;
+let spanProcessors: tracing.SpanProcessor[] = [];
+
+/**
+ * OpenTelemetry setup driven by the standard OTEL_* environment variables
+ *
+ * - OTEL_TRACES_EXPORTER: comma-separated list of otlp, console, file or none
+ *   (defaults to otlp when an OTLP endpoint is configured)
+ * - OTEL_EXPORTER_OTLP_ENDPOINT / OTEL_EXPORTER_OTLP_TRACES_ENDPOINT / OTEL_EXPORTER_OTLP_HEADERS
+ * - OTEL_SERVICE_NAME, OTEL_RESOURCE_ATTRIBUTES, OTEL_SDK_DISABLED
+ * - AGENT_TRACE_FILE: output of the file exporter (default: agent-traces.jsonl)
+ */
+export const Telemetry = {
+  /**
+   * Exporter names requested by the environment, empty when tracing is off
+   */
+  exporterNames(env: NodeJS.ProcessEnv = process.env): string[] {
+    if (env.OTEL_SDK_DISABLED === 'true') {
+      return [];
+    }
+
+    const hasEndpoint = Boolean(env.OTEL_EXPORTER_OTLP_ENDPOINT || env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT);
+    const names = (env.OTEL_TRACES_EXPORTER || (hasEndpoint ? 'otlp' : ''))
+      .split(',')
+      .map((name) => name.trim().toLowerCase())
+      .filter((name) => name.length > 0);
+
+    return names.includes('none') ? [] : names;
+  },
+
+  /**
+   * Start tracing if the environment asks for it
+   * Returns the active exporter names (empty if tracing stays disabled)
+   */
+  start(env: NodeJS.ProcessEnv = process.env): string[] {
+    if (sdk) {
+      return [];
+    }
+
+    const names = this.exporterNames(env);
+    const exporters: tracing.SpanExporter[] = [];
+
+    for (const name of names) {
+      switch (name) {
+        case 'otlp':
+          exporters.push(new OTLPTraceExporter());
+          break;
+        case 'console':
+          exporters.push(new tracing.ConsoleSpanExporter());
+          break;
+        case 'file':
+          exporters.push(new FileSpanExporter(env.AGENT_TRACE_FILE || 'agent-traces.jsonl'));
+          break;
+        default:
+          throw new Error(`Unsupported OTEL_TRACES_EXPORTER value '${name}' (expected otlp, console, file or none)`);
+      }
+    }
+
+    if (exporters.length === 0) {
+      return [];
+    }
+
+    // Console and file exporters write immediately, OTLP batches network calls
+    spanProcessors = exporters.map((exporter) =>
+      exporter instanceof OTLPTraceExporter
+        ? new tracing.BatchSpanProcessor(exporter)
+        : new tracing.SimpleSpanProcessor(exporter)
+    );
+
+    sdk = new NodeSDK({
+      serviceName: env.OTEL_SERVICE_NAME || 'typescript-ai-agent',
+      spanProcessors,
+      instrumentations: []
+    });
+    sdk.start();
+
+    return names;
+  },
+
+  /**
+   * Export buffered spans without shutting down
+   */
+  async flush(): Promise<void> {
+    await Promise.all(spanProcessors.map((processor) => processor.forceFlush()));
+  },
+
+  /**
+   * Flush and stop tracing
+   */
+  async shutdown(): Promise<void> {
+    if (!sdk) {
+      return;
+    }
+
+    await sdk.shutdown();
+    sdk = null;
+    spanProcessors = [];
+  }
+};
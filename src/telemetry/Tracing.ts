@@ -0,0 +1,42 @@
+import { trace, Span, SpanStatusCode, Attributes } from '@opentelemetry/api';
+
+/**
+ * Tracer for agent spans
+ * A no-op until Telemetry.start() registers an SDK, so instrumentation is free when disabled
+ */
+const tracer = trace.getTracer('typescript-ai-agent', '1.0.0');
+
+/**
+ * Span helpers used by the agent, tools and MCP client
+ */
+export const Tracing = {
+  /**
+   * Run `fn` inside an active span; nested spans (including sub-agents) become children
+   * Exceptions are recorded on the span and rethrown
+   */
+  async withSpan<T>(
+    name: string,
+    attributes: Attributes,
+    fn: (span: Span) => Promise<T>
+  ): Promise<T> {
+    return tracer.startActiveSpan(name, { attributes }, async (span) => {
+      try {
+        return await fn(span);
+      } catch (error) {
+        Tracing.recordError(span, error);
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  },
+
+  /**
+   * Mark a span as failed
+   */
+  recordError(span: Span, error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    span.recordException(error instanceof Error ? error : new Error(message));
+    span.setStatus({ code: SpanStatusCode.ERROR, message });
+  }
+};
@@ -1,15 +1,44 @@
-import { BaseTool } from '../core/Tool.js';
+import { z } from 'zod';
+import { BaseTool, ToolContext, ToolMetadata } from '../core/Tool.js';
+import { ZodTool } from '../core/ZodTool.js';
+import { ToolErrorCode, ToolResult } from '../core/ToolResult.js';
 import { FileSystemProvider } from '../core/FileSystemProvider.js';
 import { ConfirmationHandler, FileWriteConfirmation } from '../config/ConfirmationHandler.js';
 import { ToolValidation } from '../validation/ToolValidation.js';
+import { MessageContent } from '../types/Message.js';
+import { TextEdits } from './TextEdits.js';
 import path from 'path';
 
+/**
+ * Image formats accepted by vision-capable models
+ */
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp'
+};
+
+/**
+ * Largest image sent to the model (API limit is 20 MB per image)
+ */
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Error code for a failed file system operation
+ */
+function fileErrorCode(error: Error): ToolErrorCode {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT' ? 'not_found' : 'io_error';
+}
+
 /**
  * Tool for listing directory contents
  */
-export class ListDirectoryTool extends BaseTool<{ path: string }, string> {
+export class ListDirectoryTool extends BaseTool<{ path: string }, ToolResult> {
   readonly name = 'list__directory';
   readonly description = 'Lists all files and directories in the specified path. Use this to explore project structure.';
+  readonly metadata: ToolMetadata = { readOnly: true, category: 'filesystem' };
 
   constructor(private fileSystem: FileSystemProvider) {
     super();
@@ -28,42 +57,60 @@ export class ListDirectoryTool extends BaseTool<{ path: string }, string> {
     };
   }
 
-  async execute(args: { path: string }): Promise<string> {
+  async execute(args: { path: string }): Promise<ToolResult> {
     // Validate path
     const validation = ToolValidation.validatePath(args.path);
     if (!validation.isValid) {
-      return `ERROR: ${validation.errorMessage}`;
+      return ToolResult.error('invalid_arguments', validation.errorMessage);
     }
 
     // List directory
     const result = await this.fileSystem.listDirectory(args.path);
 
     if (!result.success) {
-      return `ERROR: Failed to list directory '${args.path}': ${result.error.message}\n\nSuggestion: Verify the path exists and you have permission to read it.`;
+      return ToolResult.error(
+        fileErrorCode(result.error),
+        `Failed to list directory '${args.path}': ${result.error.message}`,
+        { suggestion: 'Verify the path exists and you have permission to read it.' }
+      );
     }
 
-    const entries = result.value;
+    const entries = result.value.map((entry) => path.basename(entry));
     if (entries.length === 0) {
-      return `Contents of '${args.path}' (0 items):\n(empty directory)`;
+      return ToolResult.ok(`Contents of '${args.path}' (0 items):\n(empty directory)`, { path: args.path, entries });
     }
 
     const formattedEntries = entries
-      .map(entry => `  - ${path.basename(entry)}`)
+      .map(entry => `  - ${entry}`)
       .join('\n');
 
-    return `Contents of '${args.path}' (${entries.length} items):\n${formattedEntries}`;
+    return ToolResult.ok(`Contents of '${args.path}' (${entries.length} items):\n${formattedEntries}`, { path: args.path, entries });
   }
 }
 
+/**
+ * Options for reading files
+ */
+export interface ReadFileToolOptions {
+  /** Send image files (png, jpeg, gif, webp) to the model as images; needs a vision-capable model (default: true) */
+  images?: boolean;
+}
+
 /**
  * Tool for reading file contents
+ * Image files are attached to the conversation as image content instead of text
  */
-export class ReadFileTool extends BaseTool<{ path: string }, string> {
+export class ReadFileTool extends BaseTool<{ path: string }, ToolResult> {
   readonly name = 'read__file';
-  readonly description = 'Reads the complete content of a file. Use this to understand existing code before making changes.';
+  readonly description: string;
+  readonly metadata: ToolMetadata = { readOnly: true, category: 'filesystem' };
+  private readonly images: boolean;
 
-  constructor(private fileSystem: FileSystemProvider) {
+  constructor(private fileSystem: FileSystemProvider, options: ReadFileToolOptions = {}) {
     super();
+    this.images = options.images ?? true;
+    this.description = 'Reads the complete content of a file. Use this to understand existing code before making changes.' +
+      (this.images ? ' Images (png, jpeg, gif, webp) such as mockups and screenshots are shown to you as images.' : '');
   }
 
   protected getParametersSchema() {
@@ -79,36 +126,93 @@ export class ReadFileTool extends BaseTool<{ path: string }, string> {
     };
   }
 
-  async execute(args: { path: string }): Promise<string> {
+  async execute(args: { path: string }, context?: ToolContext): Promise<ToolResult> {
     // Validate path
     const validation = ToolValidation.validatePath(args.path);
     if (!validation.isValid) {
-      return `ERROR: ${validation.errorMessage}`;
+      return ToolResult.error('invalid_arguments', validation.errorMessage);
+    }
+
+    const mimeType = IMAGE_MIME_TYPES[path.extname(args.path).toLowerCase()];
+    if (mimeType) {
+      return this.readImage(args.path, mimeType, context);
     }
 
     // Read file
     const result = await this.fileSystem.readFile(args.path);
 
     if (!result.success) {
-      return `ERROR: Failed to read file '${args.path}': ${result.error.message}\n\nSuggestion: Verify the file exists and you have permission to read it.`;
+      return ToolResult.error(
+        fileErrorCode(result.error),
+        `Failed to read file '${args.path}': ${result.error.message}`,
+        { suggestion: 'Verify the file exists and you have permission to read it.' }
+      );
     }
 
     const content = result.value;
     const lineCount = content.split('\n').length;
     const charCount = content.length;
 
-    return `File: ${args.path}\n` +
-           `Lines: ${lineCount} | Characters: ${charCount}\n\n` +
-           `\`\`\`\n${content}\n\`\`\``;
+    return ToolResult.ok(
+      `File: ${args.path}\n` +
+      `Lines: ${lineCount} | Characters: ${charCount}\n\n` +
+      `\`\`\`\n${content}\n\`\`\``,
+      { path: args.path, lines: lineCount, characters: charCount }
+    );
+  }
+
+  /**
+   * Attach an image file for the model to look at
+   * Images cannot be returned as tool output, so the tool result only describes the attachment
+   */
+  private async readImage(filePath: string, mimeType: string, context?: ToolContext): Promise<ToolResult> {
+    if (!this.images || !context?.attach) {
+      return ToolResult.error('unsupported', `'${filePath}' is an image (${mimeType}) and image input is not enabled for this model`);
+    }
+
+    const result = await this.fileSystem.readFileBytes(filePath);
+    if (!result.success) {
+      return ToolResult.error(
+        fileErrorCode(result.error),
+        `Failed to read file '${filePath}': ${result.error.message}`,
+        { suggestion: 'Verify the file exists and you have permission to read it.' }
+      );
+    }
+
+    const bytes = result.value.length;
+    if (bytes > MAX_IMAGE_BYTES) {
+      return ToolResult.error(
+        'too_large',
+        `Image '${filePath}' is too large (${Math.round(bytes / 1024 / 1024)} MB, limit ${MAX_IMAGE_BYTES / 1024 / 1024} MB)`
+      );
+    }
+
+    context.attach([
+      { type: 'text', text: `Image file: ${filePath}` },
+      MessageContent.image(mimeType, result.value)
+    ]);
+
+    return ToolResult.ok(
+      `File: ${filePath}\n` +
+      `Image: ${mimeType} | Size: ${Math.max(1, Math.round(bytes / 1024))} KB\n\n` +
+      'The image is attached in the next message.',
+      { path: filePath, mimeType, bytes }
+    );
   }
 }
 
 /**
  * Tool for creating new files
  */
-export class CreateFileTool extends BaseTool<{ path: string; content: string }, string> {
+export class CreateFileTool extends BaseTool<{ path: string; content: string }, ToolResult> {
   readonly name = 'create__file';
   readonly description = 'Creates a NEW file with the specified content. ONLY use for new files. Use edit__file for existing files.';
+  readonly metadata: ToolMetadata = {
+    destructive: true,
+    requiresConfirmation: true,
+    idempotent: true,
+    category: 'filesystem'
+  };
 
   constructor(
     private fileSystem: FileSystemProvider,
@@ -134,21 +238,21 @@ export class CreateFileTool extends BaseTool<{ path: string; content: string },
     };
   }
 
-  async execute(args: { path: string; content: string }): Promise<string> {
+  async execute(args: { path: string; content: string }, context?: ToolContext): Promise<ToolResult> {
     // Check write permission
     if (!this.fileSystem.canWrite) {
-      return 'ERROR: Write operations not allowed (read-only file system)';
+      return ToolResult.error('read_only', 'Write operations not allowed (read-only file system)');
     }
 
     // Validate inputs
     const pathValidation = ToolValidation.validatePath(args.path);
     if (!pathValidation.isValid) {
-      return `ERROR: ${pathValidation.errorMessage}`;
+      return ToolResult.error('invalid_arguments', pathValidation.errorMessage);
     }
 
     const contentValidation = ToolValidation.validateContent(args.content);
     if (!contentValidation.isValid) {
-      return `ERROR: ${contentValidation.errorMessage}`;
+      return ToolResult.error('invalid_arguments', contentValidation.errorMessage);
     }
 
     // Check if file already exists
@@ -159,37 +263,47 @@ export class CreateFileTool extends BaseTool<{ path: string; content: string },
     const confirmation = await this.confirmationHandler.requestFileWriteConfirmation({
       path: args.path,
       overwrite,
-      newContent: args.content
+      newContent: args.content,
+      toolCallId: context?.toolCallId
     });
 
     if (!FileWriteConfirmation.isApproved(confirmation)) {
       if (FileWriteConfirmation.isError(confirmation)) {
-        return `ERROR: ${(confirmation as any).message}`;
+        return ToolResult.error('confirmation_failed', (confirmation as any).message);
       }
-      return `REJECTED: File creation cancelled by user for '${args.path}'`;
+      return ToolResult.rejected(`File creation cancelled by user for '${args.path}'`, { path: args.path });
     }
 
     // Write file
     const result = await this.fileSystem.writeFile(args.path, args.content);
 
     if (!result.success) {
-      return `ERROR: Failed to create file '${args.path}': ${result.error.message}`;
+      return ToolResult.error(fileErrorCode(result.error), `Failed to create file '${args.path}': ${result.error.message}`);
     }
 
     const lineCount = args.content.split('\n').length;
     const charCount = args.content.length;
 
-    return `SUCCESS: Created file '${args.path}'\n` +
-           `Lines: ${lineCount} | Characters: ${charCount}`;
+    return ToolResult.ok(
+      `Created file '${args.path}'\n` +
+      `Lines: ${lineCount} | Characters: ${charCount}`,
+      { path: args.path, overwrite, lines: lineCount, characters: charCount }
+    );
   }
 }
 
 /**
  * Tool for editing existing files
  */
-export class EditFileTool extends BaseTool<{ path: string; content: string }, string> {
+export class EditFileTool extends BaseTool<{ path: string; content: string }, ToolResult> {
   readonly name = 'edit__file';
   readonly description = 'Edits an EXISTING file by replacing its content. ONLY use for existing files. Read the file first to understand current content.';
+  readonly metadata: ToolMetadata = {
+    destructive: true,
+    requiresConfirmation: true,
+    idempotent: true,
+    category: 'filesystem'
+  };
 
   constructor(
     private fileSystem: FileSystemProvider,
@@ -215,28 +329,29 @@ export class EditFileTool extends BaseTool<{ path: string; content: string }, st
     };
   }
 
-  async execute(args: { path: string; content: string }): Promise<string> {
+  async execute(args: { path: string; content: string }, context?: ToolContext): Promise<ToolResult> {
     // Check write permission
     if (!this.fileSystem.canWrite) {
-      return 'ERROR: Write operations not allowed (read-only file system)';
+      return ToolResult.error('read_only', 'Write operations not allowed (read-only file system)');
     }
 
     // Validate inputs
     const pathValidation = ToolValidation.validatePath(args.path);
     if (!pathValidation.isValid) {
-      return `ERROR: ${pathValidation.errorMessage}`;
+      return ToolResult.error('invalid_arguments', pathValidation.errorMessage);
     }
 
     const contentValidation = ToolValidation.validateContent(args.content);
     if (!contentValidation.isValid) {
-      return `ERROR: ${contentValidation.errorMessage}`;
+      return ToolResult.error('invalid_arguments', contentValidation.errorMessage);
     }
 
     // Read old content for diff
     const oldContentResult = await this.fileSystem.readFile(args.path);
     if (!oldContentResult.success) {
-      return `ERROR: File '${args.path}' not found. Use create__file for new files.\n` +
-             `Suggestion: First use read__file to verify the file exists.`;
+      return ToolResult.error('not_found', `File '${args.path}' not found. Use create__file for new files.`, {
+        suggestion: 'First use read__file to verify the file exists.'
+      });
     }
 
     const oldContent = oldContentResult.value;
@@ -246,27 +361,146 @@ export class EditFileTool extends BaseTool<{ path: string; content: string }, st
       path: args.path,
       overwrite: true,
       oldContent,
-      newContent: args.content
+      newContent: args.content,
+      toolCallId: context?.toolCallId
     });
 
     if (!FileWriteConfirmation.isApproved(confirmation)) {
       if (FileWriteConfirmation.isError(confirmation)) {
-        return `ERROR: ${(confirmation as any).message}`;
+        return ToolResult.error('confirmation_failed', (confirmation as any).message);
       }
-      return `REJECTED: File edit cancelled by user for '${args.path}'`;
+      return ToolResult.rejected(`File edit cancelled by user for '${args.path}'`, { path: args.path });
     }
 
     // Write file
     const result = await this.fileSystem.writeFile(args.path, args.content);
 
     if (!result.success) {
-      return `ERROR: Failed to edit file '${args.path}': ${result.error.message}`;
+      return ToolResult.error(fileErrorCode(result.error), `Failed to edit file '${args.path}': ${result.error.message}`);
     }
 
     const lineCount = args.content.split('\n').length;
     const charCount = args.content.length;
 
-    return `SUCCESS: Edited file '${args.path}'\n` +
-           `Lines: ${lineCount} | Characters: ${charCount}`;
+    return ToolResult.ok(
+      `Edited file '${args.path}'\n` +
+      `Lines: ${lineCount} | Characters: ${charCount}`,
+      { path: args.path, lines: lineCount, characters: charCount }
+    );
+  }
+}
+
+const ApplyEditSchema = z.object({
+  path: z.string().describe('Absolute path to the existing file'),
+  edits: z.array(z.object({
+    search: z.string().describe('Exact text to replace, including indentation; must occur exactly once unless replaceAll is set'),
+    replace: z.string().describe('Text to put in its place'),
+    replaceAll: z.boolean().optional().describe('Replace every occurrence')
+  })).optional().describe('Search/replace blocks, applied in order'),
+  diff: z.string().optional().describe('Unified diff of this file (@@ hunks with context lines), instead of edits')
+});
+
+/**
+ * Tool for changing parts of an existing file
+ * Only the changed text is sent, so large files are not rewritten (and truncated) by the model
+ */
+export class ApplyEditTool extends ZodTool<typeof ApplyEditSchema, ToolResult> {
+  readonly name = 'apply_edit';
+  readonly description = 'Changes part of an EXISTING file, given exact search/replace blocks or a unified diff. ' +
+    'Prefer this over edit__file for changes to large files. Read the file first; search text must match exactly.';
+  readonly metadata: ToolMetadata = {
+    destructive: true,
+    requiresConfirmation: true,
+    category: 'filesystem'
+  };
+  readonly schema = ApplyEditSchema;
+
+  constructor(
+    private fileSystem: FileSystemProvider,
+    private confirmationHandler: ConfirmationHandler
+  ) {
+    super();
+  }
+
+  async execute(args: z.output<typeof ApplyEditSchema>, context?: ToolContext): Promise<ToolResult> {
+    // Check write permission
+    if (!this.fileSystem.canWrite) {
+      return ToolResult.error('read_only', 'Write operations not allowed (read-only file system)');
+    }
+
+    // Validate inputs
+    const pathValidation = ToolValidation.validatePath(args.path);
+    if (!pathValidation.isValid) {
+      return ToolResult.error('invalid_arguments', pathValidation.errorMessage);
+    }
+
+    const hasEdits = args.edits !== undefined && args.edits.length > 0;
+    if (hasEdits === (args.diff !== undefined)) {
+      return ToolResult.error('invalid_arguments', 'Provide either edits or diff (exactly one of them)');
+    }
+
+    // Read old content
+    const oldContentResult = await this.fileSystem.readFile(args.path);
+    if (!oldContentResult.success) {
+      return ToolResult.error('not_found', `File '${args.path}' not found. Use create__file for new files.`, {
+        suggestion: 'First use read__file to verify the file exists.'
+      });
+    }
+
+    const oldContent = oldContentResult.value;
+    const applied = args.diff !== undefined
+      ? TextEdits.applyUnifiedDiff(oldContent, args.diff)
+      : TextEdits.applyBlocks(oldContent, args.edits ?? []);
+
+    if (!applied.success) {
+      const { kind, message } = applied.error;
+      return kind === 'invalid_diff'
+        ? ToolResult.error('invalid_arguments', `Cannot apply edit to '${args.path}': ${message}`)
+        : ToolResult.error(kind, `Cannot apply edit to '${args.path}': ${message}`, {
+          suggestion: 'Nothing was written. Read the file again and match exactly one place, copying the text as it is.'
+        });
+    }
+
+    const newContent = applied.value;
+    if (newContent === oldContent) {
+      return ToolResult.ok(`No changes: the edit leaves '${args.path}' as it is`, { path: args.path, changed: false });
+    }
+
+    const contentValidation = ToolValidation.validateContent(newContent);
+    if (!contentValidation.isValid) {
+      return ToolResult.error('invalid_arguments', contentValidation.errorMessage);
+    }
+
+    // Request confirmation with diff
+    const confirmation = await this.confirmationHandler.requestFileWriteConfirmation({
+      path: args.path,
+      overwrite: true,
+      oldContent,
+      newContent,
+      toolCallId: context?.toolCallId
+    });
+
+    if (!FileWriteConfirmation.isApproved(confirmation)) {
+      if (FileWriteConfirmation.isError(confirmation)) {
+        return ToolResult.error('confirmation_failed', (confirmation as any).message);
+      }
+      return ToolResult.rejected(`File edit cancelled by user for '${args.path}'`, { path: args.path });
+    }
+
+    // Write file
+    const result = await this.fileSystem.writeFile(args.path, newContent);
+
+    if (!result.success) {
+      return ToolResult.error(fileErrorCode(result.error), `Failed to edit file '${args.path}': ${result.error.message}`);
+    }
+
+    const lineCount = newContent.split('\n').length;
+    const lineDelta = lineCount - oldContent.split('\n').length;
+
+    return ToolResult.ok(
+      `Edited file '${args.path}'\n` +
+      `Lines: ${lineCount} (${lineDelta >= 0 ? '+' : ''}${lineDelta}) | Characters: ${newContent.length}`,
+      { path: args.path, changed: true, lines: lineCount, characters: newContent.length }
+    );
   }
 }
@@ -1,6 +1,8 @@
-import { BaseTool } from '../core/Tool.js';
+import { BaseTool, ToolContext, ToolMetadata } from '../core/Tool.js';
+import { ToolResult } from '../core/ToolResult.js';
 import { ConfirmationHandler, FileWriteConfirmation } from '../config/ConfirmationHandler.js';
 import { ToolValidation } from '../validation/ToolValidation.js';
+import { Result } from '../types/Result.js';
 import { spawn } from 'child_process';
 import { platform } from 'os';
 
@@ -12,6 +14,7 @@ export interface ShellCommandResult {
   exitCode: number | null;
   output: string;
   timedOut: boolean;
+  aborted: boolean;
 }
 
 /**
@@ -19,11 +22,12 @@ export interface ShellCommandResult {
  */
 export class ExecuteShellCommandTool extends BaseTool<
   { command: string; timeoutSeconds?: number; workingDirectory?: string },
-  string
+  ToolResult<ShellCommandResult>
 > {
   readonly name = 'execute__shell_command';
   readonly description =
     'Executes a shell command with timeout support. Use for running builds, tests, and other command-line operations. Default timeout: 30 seconds.';
+  readonly metadata: ToolMetadata = { destructive: true, requiresConfirmation: true, category: 'shell' };
 
   constructor(private confirmationHandler: ConfirmationHandler) {
     super();
@@ -51,22 +55,41 @@ export class ExecuteShellCommandTool extends BaseTool<
     };
   }
 
-  async execute(args: {
-    command: string;
-    timeoutSeconds?: number;
-    workingDirectory?: string;
-  }): Promise<string> {
+  async execute(
+    args: {
+      command: string;
+      timeoutSeconds?: number;
+      workingDirectory?: string;
+    },
+    context?: ToolContext
+  ): Promise<ToolResult<ShellCommandResult>> {
+    const result = await this.run(args, context);
+    return result.success ? this.toToolResult(result.value) : result.error;
+  }
+
+  /**
+   * Validate, confirm and run a command
+   * Returns the raw result, or the tool result for the model if the command did not run
+   */
+  async run(
+    args: {
+      command: string;
+      timeoutSeconds?: number;
+      workingDirectory?: string;
+    },
+    context?: ToolContext
+  ): Promise<Result<ShellCommandResult, ToolResult<ShellCommandResult>>> {
     const timeout = args.timeoutSeconds ?? 30;
 
     // Validate inputs
     const commandValidation = ToolValidation.validateCommand(args.command);
     if (!commandValidation.isValid) {
-      return `ERROR: ${commandValidation.errorMessage}`;
+      return Result.err(ToolResult.error('invalid_arguments', commandValidation.errorMessage));
     }
 
     const timeoutValidation = ToolValidation.validateTimeout(timeout);
     if (!timeoutValidation.isValid) {
-      return `ERROR: ${timeoutValidation.errorMessage}`;
+      return Result.err(ToolResult.error('invalid_arguments', timeoutValidation.errorMessage));
     }
 
     // Request confirmation
@@ -76,22 +99,31 @@ export class ExecuteShellCommandTool extends BaseTool<
 
     if (!FileWriteConfirmation.isApproved(confirmation)) {
       if (FileWriteConfirmation.isError(confirmation)) {
-        return `ERROR: ${(confirmation as any).message}`;
+        return Result.err(ToolResult.error('confirmation_failed', (confirmation as any).message));
       }
-      return `REJECTED: Shell command execution cancelled by user: ${args.command}`;
+      return Result.err(ToolResult.rejected(`Shell command execution cancelled by user: ${args.command}`));
+    }
+
+    if (context?.signal?.aborted) {
+      return Result.err(ToolResult.rejected(`Shell command not started, the run was cancelled: ${args.command}`));
     }
 
     // Execute command
-    const result = await this.executeCommand(args.command, timeout, args.workingDirectory);
+    const result = await this.executeCommand(
+      args.command,
+      timeout,
+      args.workingDirectory,
+      context?.signal
+    );
 
-    // Format result
-    return this.formatResult(result);
+    return Result.ok(result);
   }
 
   private async executeCommand(
     command: string,
     timeoutSeconds: number,
-    workingDirectory?: string
+    workingDirectory?: string,
+    signal?: AbortSignal
   ): Promise<ShellCommandResult> {
     return new Promise((resolve) => {
       const isWindows = platform() === 'win32';
@@ -100,6 +132,7 @@ export class ExecuteShellCommandTool extends BaseTool<
 
       let output = '';
       let timedOut = false;
+      let aborted = false;
       let exitCode: number | null = null;
 
       const proc = spawn(shell, shellArgs, {
@@ -116,52 +149,100 @@ export class ExecuteShellCommandTool extends BaseTool<
         output += data.toString();
       });
 
-      // Set timeout
-      const timeoutHandle = setTimeout(() => {
-        timedOut = true;
+      const terminate = () => {
         proc.kill('SIGTERM');
 
         // Force kill after 2 seconds if still running
         setTimeout(() => {
-          if (!proc.killed) {
+          if (proc.exitCode === null && proc.signalCode === null) {
             proc.kill('SIGKILL');
           }
         }, 2000);
+      };
+
+      // Set timeout
+      const timeoutHandle = setTimeout(() => {
+        timedOut = true;
+        terminate();
       }, timeoutSeconds * 1000);
 
+      // Stop the process when the run is cancelled
+      const onAbort = () => {
+        aborted = true;
+        terminate();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const cleanup = () => {
+        clearTimeout(timeoutHandle);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
       // Handle process exit
       proc.on('exit', (code) => {
-        clearTimeout(timeoutHandle);
+        cleanup();
         exitCode = code;
 
         resolve({
           command,
           exitCode,
           output: output.trim(),
-          timedOut
+          timedOut,
+          aborted
         });
       });
 
       // Handle process error
       proc.on('error', (error) => {
-        clearTimeout(timeoutHandle);
+        cleanup();
         resolve({
           command,
           exitCode: null,
           output: `ERROR: ${error.message}`,
-          timedOut
+          timedOut,
+          aborted
         });
       });
     });
   }
 
-  private formatResult(result: ShellCommandResult): string {
-    let formatted = `Command: ${result.command}\n`;
+  /**
+   * Classify a finished command; a non-zero exit code is an error
+   */
+  toToolResult(result: ShellCommandResult): ToolResult<ShellCommandResult> {
+    const content = this.formatResult(result);
 
+    if (result.aborted) {
+      return ToolResult.error('cancelled', content, { data: result });
+    }
     if (result.timedOut) {
-      formatted += `Status: TIMED OUT\n`;
+      return ToolResult.timeout(content, {
+        data: result,
+        suggestion: 'The command exceeded the timeout. Consider increasing timeoutSeconds or optimizing the operation.'
+      });
+    }
+    if (result.exitCode === 0) {
+      return ToolResult.ok(content, result);
+    }
+    return ToolResult.error('command_failed', content, {
+      data: result,
+      suggestion: 'The command failed. Review the output above for error details and adjust your approach.'
+    });
+  }
+
+  /**
+   * Command, status and output as text
+   */
+  formatResult(result: ShellCommandResult): string {
+    let formatted = `Command: ${result.command}\n`;
+
+    if (result.aborted) {
+      formatted += `Status: CANCELLED\n`;
       formatted += `\nPartial output:\n${result.output}\n`;
-      formatted += `\nSuggestion: The command exceeded the timeout. Consider increasing timeoutSeconds or optimizing the operation.`;
+      formatted += `\nThe command was stopped because the run was cancelled.`;
+    } else if (result.timedOut) {
+      formatted += `Status: TIMED OUT\n`;
+      formatted += `\nPartial output:\n${result.output}`;
     } else if (result.exitCode === 0) {
       formatted += `Status: SUCCESS (exit code: 0)\n`;
       if (result.output) {
@@ -169,8 +250,7 @@ export class ExecuteShellCommandTool extends BaseTool<
       }
     } else {
       formatted += `Status: FAILED (exit code: ${result.exitCode})\n`;
-      formatted += `\nOutput:\n${result.output}\n`;
-      formatted += `\nSuggestion: The command failed. Review the output above for error details and adjust your approach.`;
+      formatted += `\nOutput:\n${result.output}`;
     }
 
     return formatted;
@@ -0,0 +1,253 @@
+import { Result } from '../types/Result.js';
+
+/**
+ * Replace an exact piece of text
+ */
+export interface SearchReplaceBlock {
+  /** Text to find, including whitespace and indentation */
+  search: string;
+  replace: string;
+  /** Replace every occurrence instead of requiring exactly one */
+  replaceAll?: boolean;
+}
+
+/**
+ * Why an edit could not be applied
+ * - anchor_not_found: the search text or hunk context does not occur in the file
+ * - anchor_ambiguous: it occurs more than once
+ * - invalid_diff: the unified diff cannot be parsed
+ */
+export interface TextEditError {
+  kind: 'anchor_not_found' | 'anchor_ambiguous' | 'invalid_diff';
+  message: string;
+}
+
+interface Hunk {
+  /** 1-based start line in the old file, as stated in the header */
+  oldStart: number;
+  oldLines: string[];
+  newLines: string[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+/**
+ * Apply edits to file content without rewriting the rest of the file
+ * Edits are applied in order, each to the result of the previous one. Line endings
+ * of the edits are converted to the file's, so LF edits apply to CRLF files.
+ */
+export const TextEdits = {
+  applyBlocks(content: string, blocks: SearchReplaceBlock[]): Result<string, TextEditError> {
+    const eol = lineEnding(content);
+    let result = content;
+
+    for (const [index, block] of blocks.entries()) {
+      const label = blocks.length > 1 ? `Edit ${index + 1}` : 'Edit';
+      const search = withLineEnding(block.search, eol);
+      const replace = withLineEnding(block.replace, eol);
+
+      if (search === '') {
+        return Result.err({ kind: 'anchor_not_found', message: `${label}: search text is empty` });
+      }
+
+      const positions = occurrences(result, search);
+
+      if (positions.length === 0) {
+        const hint = looseMatchLine(result, search);
+        return Result.err({
+          kind: 'anchor_not_found',
+          message: `${label}: search text not found` +
+            (hint ? ` (line ${hint} matches when whitespace is ignored; copy the text exactly)` : '') +
+            `:\n${preview(block.search)}`
+        });
+      }
+
+      if (positions.length > 1 && !block.replaceAll) {
+        const lines = positions.map((position) => lineNumberAt(result, position));
+        return Result.err({
+          kind: 'anchor_ambiguous',
+          message: `${label}: search text occurs ${positions.length} times (lines ${lines.join(', ')}); ` +
+            `include more surrounding lines or set replaceAll:\n${preview(block.search)}`
+        });
+      }
+
+      result = block.replaceAll
+        ? result.split(search).join(replace)
+        : result.slice(0, positions[0]) + replace + result.slice(positions[0] + search.length);
+    }
+
+    return Result.ok(result);
+  },
+
+  /**
+   * Apply a unified diff for a single file
+   * Hunks are located by their context and removed lines; the line numbers in the
+   * headers only decide between several matches.
+   */
+  applyUnifiedDiff(content: string, diff: string): Result<string, TextEditError> {
+    const parsed = parseUnifiedDiff(diff);
+    if (!parsed.success) {
+      return parsed;
+    }
+
+    const eol = lineEnding(content);
+    const lines = content.split(eol);
+    // Hunks must not overlap and stay in order
+    let searchFrom = 0;
+    // Lines added minus lines removed by earlier hunks, to translate header line numbers
+    let shift = 0;
+
+    for (const [index, hunk] of parsed.value.entries()) {
+      const label = `Hunk ${index + 1} (@@ -${hunk.oldStart})`;
+      let start: number;
+
+      if (hunk.oldLines.length === 0) {
+        // Pure insertion after line oldStart: the header is all there is to go by
+        start = Math.max(searchFrom, Math.min(hunk.oldStart + shift, lines.length));
+      } else {
+        const matches = findLines(lines, hunk.oldLines, searchFrom);
+
+        if (matches.length === 0) {
+          return Result.err({
+            kind: 'anchor_not_found',
+            message: `${label}: context and removed lines not found in the file:\n${preview(hunk.oldLines.join('\n'))}`
+          });
+        }
+
+        const expected = hunk.oldStart - 1 + shift;
+        const atHeader = matches.find((match) => match === expected);
+        if (matches.length > 1 && atHeader === undefined) {
+          return Result.err({
+            kind: 'anchor_ambiguous',
+            message: `${label}: context matches ${matches.length} places (lines ${matches.map((m) => m + 1).join(', ')}); ` +
+              `add more context lines or fix the line numbers in the hunk header`
+          });
+        }
+        start = atHeader ?? matches[0];
+      }
+
+      lines.splice(start, hunk.oldLines.length, ...hunk.newLines);
+      searchFrom = start + hunk.newLines.length;
+      shift += hunk.newLines.length - hunk.oldLines.length;
+    }
+
+    return Result.ok(lines.join(eol));
+  }
+};
+
+/**
+ * Hunks of a unified diff; file headers are skipped
+ */
+function parseUnifiedDiff(diff: string): Result<Hunk[], TextEditError> {
+  const lines = diff.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+  const hunks: Hunk[] = [];
+  let current: Hunk | null = null;
+  let files = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // A removed line can start with '--- ' too; a file header is followed by '+++ '
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      files++;
+      current = null;
+      i++;
+      continue;
+    }
+
+    const header = HUNK_HEADER.exec(line);
+    if (header) {
+      current = { oldStart: Number(header[1]), oldLines: [], newLines: [] };
+      hunks.push(current);
+      continue;
+    }
+
+    if (!current) {
+      // git's "diff --git" and "index" lines, or prose around the diff
+      continue;
+    }
+
+    const marker = line[0];
+    const text = line.slice(1);
+    if (marker === '-') {
+      current.oldLines.push(text);
+    } else if (marker === '+') {
+      current.newLines.push(text);
+    } else if (marker === ' ' || line === '') {
+      // Models often drop the leading space of empty context lines
+      current.oldLines.push(text);
+      current.newLines.push(text);
+    } else if (marker !== '\\') {
+      // '\' is "No newline at end of file"
+      return Result.err({ kind: 'invalid_diff', message: `Invalid line in hunk (must start with ' ', '-' or '+'): ${line}` });
+    }
+  }
+
+  if (files > 1) {
+    return Result.err({ kind: 'invalid_diff', message: 'The diff changes more than one file; send one diff per file' });
+  }
+  if (hunks.length === 0) {
+    return Result.err({ kind: 'invalid_diff', message: 'No hunks found; each change needs an @@ -line,count +line,count @@ header' });
+  }
+
+  return Result.ok(hunks);
+}
+
+/**
+ * '\r\n' if the content uses Windows line endings
+ */
+function lineEnding(content: string): string {
+  return content.includes('\r\n') ? '\r\n' : '\n';
+}
+
+function withLineEnding(text: string, eol: string): string {
+  return text.replace(/\r?\n/g, eol);
+}
+
+/**
+ * Start offsets of non-overlapping occurrences
+ */
+function occurrences(content: string, search: string): number[] {
+  const positions: number[] = [];
+  for (let position = content.indexOf(search); position !== -1; position = content.indexOf(search, position + search.length)) {
+    positions.push(position);
+  }
+  return positions;
+}
+
+function lineNumberAt(content: string, offset: number): number {
+  return content.slice(0, offset).split('\n').length;
+}
+
+/**
+ * Line where the search text starts when leading/trailing whitespace of each line is ignored
+ */
+function looseMatchLine(content: string, search: string): number | null {
+  const normalize = (text: string) => text.split(/\r?\n/).map((line) => line.trim());
+  const lines = normalize(content);
+  const wanted = normalize(search);
+  const match = findLines(lines, wanted, 0)[0];
+  return match === undefined ? null : match + 1;
+}
+
+/**
+ * Indexes at which `wanted` occurs as consecutive lines, starting at `from`
+ */
+function findLines(lines: string[], wanted: string[], from: number): number[] {
+  const matches: number[] = [];
+  for (let start = from; start + wanted.length <= lines.length; start++) {
+    if (wanted.every((line, offset) => lines[start + offset] === line)) {
+      matches.push(start);
+    }
+  }
+  return matches;
+}
+
+/**
+ * First lines of a piece of text, for error messages
+ */
+function preview(text: string, maxLines = 5): string {
+  const lines = text.split('\n');
+  const shown = lines.slice(0, maxLines).map((line) => `  | ${line}`).join('\n');
+  return lines.length > maxLines ? `${shown}\n  | ... (${lines.length - maxLines} more lines)` : shown;
+}
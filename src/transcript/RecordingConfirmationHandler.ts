@@ -0,0 +1,56 @@
+import { ConfirmationHandler, FileWriteConfirmation } from '../config/ConfirmationHandler.js';
+import { ToolMetadata } from '../core/Tool.js';
+
+/**
+ * File write that went through confirmation, with the decision taken
+ */
+export interface RecordedFileChange {
+  path: string;
+  overwrite: boolean;
+  oldContent?: string;
+  newContent?: string;
+  /** Tool call that asked for the write, when the tool passed it on */
+  toolCallId?: string;
+  outcome: FileWriteConfirmation['type'];
+}
+
+/**
+ * Wraps a confirmation handler and remembers every file write it was asked about
+ * The transcript uses the recorded contents to show diffs next to the tool calls.
+ */
+export class RecordingConfirmationHandler implements ConfirmationHandler {
+  private changes: RecordedFileChange[] = [];
+
+  constructor(private inner: ConfirmationHandler) {}
+
+  async requestFileWriteConfirmation(options: {
+    path: string;
+    overwrite: boolean;
+    oldContent?: string;
+    newContent?: string;
+    toolCallId?: string;
+  }): Promise<FileWriteConfirmation> {
+    const confirmation = await this.inner.requestFileWriteConfirmation(options);
+    this.changes.push({ ...options, outcome: confirmation.type });
+    return confirmation;
+  }
+
+  requestShellCommandConfirmation(command: string): Promise<FileWriteConfirmation> {
+    return this.inner.requestShellCommandConfirmation(command);
+  }
+
+  requestToolCallConfirmation(options: {
+    name: string;
+    args: Record<string, any>;
+    metadata: Required<ToolMetadata>;
+  }): Promise<FileWriteConfirmation> {
+    return this.inner.requestToolCallConfirmation(options);
+  }
+
+  /**
+   * File writes in the order they were requested
+   */
+  get fileChanges(): RecordedFileChange[] {
+    return [...this.changes];
+  }
+}
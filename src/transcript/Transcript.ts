@@ -0,0 +1,413 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Message, MessageContent, ToolCall } from '../types/Message.js';
+import { DiffViewer } from '../config/DiffViewer.js';
+import { ToolResult, ToolResultStatus } from '../core/ToolResult.js';
+import { RecordedFileChange } from './RecordingConfirmationHandler.js';
+
+/**
+ * Options for rendering a transcript
+ */
+export interface TranscriptOptions {
+  /** Heading of the document (default: "Agent transcript") */
+  title?: string;
+  /** Header fields such as project, model and session */
+  metadata?: Record<string, string>;
+  /** File writes recorded during the run, shown as diffs next to their tool calls */
+  fileChanges?: RecordedFileChange[];
+  /** Tool results longer than this are truncated (default: 4000 characters) */
+  maxResultLength?: number;
+}
+
+export type TranscriptFormat = 'markdown' | 'html';
+
+interface RenderedDiff {
+  path: string;
+  outcome: RecordedFileChange['outcome'];
+  text: string;
+  stats: string;
+}
+
+interface RenderedToolCall {
+  name: string;
+  arguments: string;
+  result?: string;
+  /** Outcome parsed from the result; absent without a result */
+  status?: ToolResultStatus;
+  diff?: RenderedDiff;
+}
+
+/**
+ * Conversation grouped for display: tool results are attached to their calls
+ */
+type TranscriptEntry =
+  | { type: 'system'; content: string }
+  | { type: 'user'; content: string; images: string[] }
+  | { type: 'assistant'; content: string; toolCalls: RenderedToolCall[] }
+  | { type: 'tool'; name?: string; content: string };
+
+/**
+ * Readable transcripts of agent conversations
+ *
+ * Markdown output is meant for pasting into code reviews; HTML output is a single
+ * self-contained file with inline styles and collapsible tool results.
+ */
+export const Transcript = {
+  /**
+   * Format implied by a file name: .html/.htm is HTML, anything else Markdown
+   */
+  formatFor(filePath: string): TranscriptFormat {
+    const extension = path.extname(filePath).toLowerCase();
+    return extension === '.html' || extension === '.htm' ? 'html' : 'markdown';
+  },
+
+  toMarkdown(messages: Message[], options: TranscriptOptions = {}): string {
+    const entries = buildEntries(messages, options.fileChanges ?? []);
+    const maxResultLength = options.maxResultLength ?? 4000;
+    const lines: string[] = [`# ${options.title ?? 'Agent transcript'}`, ''];
+
+    for (const [key, value] of Object.entries(options.metadata ?? {})) {
+      lines.push(`- **${key}:** ${value}`);
+    }
+    if (options.metadata && Object.keys(options.metadata).length > 0) {
+      lines.push('');
+    }
+
+    for (const entry of entries) {
+      switch (entry.type) {
+        case 'system':
+          lines.push('## ⚙️ System prompt', '');
+          lines.push(...markdownDetails(lineCount(entry.content), codeBlock(entry.content, 'text')));
+          break;
+        case 'user':
+          lines.push('## 👤 User', '', entry.content, '');
+          for (const url of entry.images) {
+            lines.push(`_🖼️ ${imageLabel(url)}_`, '');
+          }
+          break;
+        case 'tool':
+          lines.push(`## 🔧 Tool result${entry.name ? `: \`${entry.name}\`` : ''}`, '');
+          lines.push(...markdownDetails(resultSummary(entry.content, ToolResult.from(entry.content).status), codeBlock(truncate(entry.content, maxResultLength), 'text')));
+          break;
+        case 'assistant':
+          lines.push('## 🤖 Assistant', '');
+          if (entry.content.trim()) {
+            lines.push(entry.content, '');
+          }
+          for (const call of entry.toolCalls) {
+            lines.push(`### 🔧 \`${call.name}\``, '');
+            lines.push(...codeBlock(call.arguments, 'json'), '');
+            if (call.diff) {
+              lines.push(`**${call.diff.path}** (${diffLabel(call.diff)})`, '');
+              lines.push(...codeBlock(call.diff.text, 'diff'), '');
+            }
+            if (call.result !== undefined) {
+              lines.push(...markdownDetails(resultSummary(call.result, call.status), codeBlock(truncate(call.result, maxResultLength), 'text')));
+            } else {
+              lines.push('_No result recorded_', '');
+            }
+          }
+          break;
+      }
+    }
+
+    return lines.join('\n').trimEnd() + '\n';
+  },
+
+  toHtml(messages: Message[], options: TranscriptOptions = {}): string {
+    const entries = buildEntries(messages, options.fileChanges ?? []);
+    const maxResultLength = options.maxResultLength ?? 4000;
+    const title = options.title ?? 'Agent transcript';
+    const body: string[] = [`<h1>${escapeHtml(title)}</h1>`];
+
+    const metadata = Object.entries(options.metadata ?? {});
+    if (metadata.length > 0) {
+      body.push('<table class="meta">');
+      for (const [key, value] of metadata) {
+        body.push(`<tr><th>${escapeHtml(key)}</th><td>${escapeHtml(value)}</td></tr>`);
+      }
+      body.push('</table>');
+    }
+
+    for (const entry of entries) {
+      switch (entry.type) {
+        case 'system':
+          body.push('<section class="entry system"><h2>⚙️ System prompt</h2>');
+          body.push(htmlDetails(lineCount(entry.content), `<pre>${escapeHtml(entry.content)}</pre>`));
+          body.push('</section>');
+          break;
+        case 'user':
+          body.push(`<section class="entry user"><h2>👤 User</h2><div class="text">${escapeHtml(entry.content)}</div>`);
+          for (const url of entry.images) {
+            body.push(`<img class="attachment" src="${escapeHtml(url)}" alt="${escapeHtml(imageLabel(url))}">`);
+          }
+          body.push('</section>');
+          break;
+        case 'tool':
+          body.push(`<section class="entry tool"><h2>🔧 Tool result${entry.name ? `: <code>${escapeHtml(entry.name)}</code>` : ''}</h2>`);
+          body.push(htmlDetails(resultSummary(entry.content, ToolResult.from(entry.content).status), `<pre>${escapeHtml(truncate(entry.content, maxResultLength))}</pre>`));
+          body.push('</section>');
+          break;
+        case 'assistant':
+          body.push('<section class="entry assistant"><h2>🤖 Assistant</h2>');
+          if (entry.content.trim()) {
+            body.push(`<div class="text">${escapeHtml(entry.content)}</div>`);
+          }
+          for (const call of entry.toolCalls) {
+            body.push(`<div class="call"><h3>🔧 <code>${escapeHtml(call.name)}</code></h3>`);
+            body.push(`<pre class="args">${escapeHtml(call.arguments)}</pre>`);
+            if (call.diff) {
+              body.push(`<div class="diff-title"><code>${escapeHtml(call.diff.path)}</code> (${escapeHtml(diffLabel(call.diff))})</div>`);
+              body.push(`<pre class="diff">${htmlDiff(call.diff.text)}</pre>`);
+            }
+            if (call.result !== undefined) {
+              body.push(htmlDetails(
+                resultSummary(call.result, call.status),
+                `<pre class="${call.status !== undefined && call.status !== 'ok' ? `result ${call.status}` : 'result'}">${escapeHtml(truncate(call.result, maxResultLength))}</pre>`
+              ));
+            } else {
+              body.push('<p class="muted">No result recorded</p>');
+            }
+            body.push('</div>');
+          }
+          body.push('</section>');
+          break;
+      }
+    }
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${body.join('\n')}
+</body>
+</html>
+`;
+  },
+
+  /**
+   * Write a transcript, choosing the format from the file extension
+   */
+  async write(filePath: string, messages: Message[], options: TranscriptOptions = {}): Promise<TranscriptFormat> {
+    const format = Transcript.formatFor(filePath);
+    const content = format === 'html'
+      ? Transcript.toHtml(messages, options)
+      : Transcript.toMarkdown(messages, options);
+
+    await fs.mkdir(path.dirname(path.resolve(filePath)), { recursive: true });
+    await fs.writeFile(filePath, content, 'utf-8');
+    return format;
+  }
+};
+
+const STYLES = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; line-height: 1.5; }
+h1 { border-bottom: 1px solid #d0d7de; padding-bottom: .3rem; }
+h2 { font-size: 1.1rem; margin: 0 0 .5rem; }
+h3 { font-size: 1rem; margin: .75rem 0 .25rem; }
+table.meta { border-collapse: collapse; margin-bottom: 1.5rem; }
+table.meta th, table.meta td { text-align: left; padding: .2rem .75rem .2rem 0; vertical-align: top; }
+.entry { border: 1px solid #d0d7de; border-radius: 6px; padding: .75rem 1rem; margin: 1rem 0; }
+.user { background: #f6f8fa; }
+.system, .tool { background: #fbfbfb; }
+.text { white-space: pre-wrap; }
+pre { background: #f6f8fa; border-radius: 6px; padding: .5rem .75rem; overflow-x: auto; white-space: pre-wrap; word-break: break-word; margin: .25rem 0; }
+pre.error, pre.timeout { background: #fff1f0; }
+pre.rejected { background: #fffbe6; }
+.diff-title { margin-top: .5rem; }
+.diff .add { color: #116329; background: #dafbe1; }
+.diff .del { color: #82071e; background: #ffebe9; }
+.diff .hunk { color: #0550ae; }
+summary { cursor: pointer; color: #57606a; }
+.muted { color: #57606a; font-style: italic; }
+img.attachment { display: block; max-width: 100%; margin: .5rem 0; border: 1px solid #d0d7de; border-radius: 6px; }
+`;
+
+/**
+ * Group messages into entries and attach tool results and file diffs to their calls
+ */
+function buildEntries(messages: Message[], fileChanges: RecordedFileChange[]): TranscriptEntry[] {
+  const results = new Map<string, string>();
+  for (const message of messages) {
+    if (message.role === 'tool' && message.tool_call_id) {
+      results.set(message.tool_call_id, MessageContent.text(message.content));
+    }
+  }
+
+  const knownCalls = new Set<string>();
+  const pendingChanges = [...fileChanges];
+  const entries: TranscriptEntry[] = [];
+
+  for (const message of messages) {
+    switch (message.role) {
+      case 'system':
+        entries.push({ type: 'system', content: MessageContent.text(message.content) });
+        break;
+      case 'user':
+        entries.push({
+          type: 'user',
+          // Images are rendered separately, so only the text parts are kept
+          content: typeof message.content === 'string'
+            ? message.content
+            : message.content.flatMap((part) => (part.type === 'text' ? [part.text] : [])).join('\n'),
+          images: MessageContent.images(message.content).map((part) => part.image_url.url)
+        });
+        break;
+      case 'assistant': {
+        const toolCalls = (message.tool_calls ?? []).map((toolCall): RenderedToolCall => {
+          knownCalls.add(toolCall.id);
+          const result = results.get(toolCall.id);
+          return {
+            name: toolCall.function.name,
+            arguments: formatArguments(toolCall.function.arguments),
+            result,
+            status: result === undefined ? undefined : ToolResult.from(result).status,
+            diff: takeDiff(toolCall, result, pendingChanges)
+          };
+        });
+        entries.push({ type: 'assistant', content: MessageContent.text(message.content ?? ''), toolCalls });
+        break;
+      }
+      case 'tool':
+        // Results whose call is gone, e.g. after context compaction
+        if (!message.tool_call_id || !knownCalls.has(message.tool_call_id)) {
+          entries.push({ type: 'tool', name: message.name, content: MessageContent.text(message.content) });
+        }
+        break;
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Find the recorded write belonging to a tool call
+ * Only calls that reached confirmation (approved or rejected) have one. Writes are
+ * matched by tool call ID; writes recorded without one (tools that do not pass it on)
+ * fall back to the first unclaimed write of the same path.
+ */
+function takeDiff(toolCall: ToolCall, result: string | undefined, pending: RecordedFileChange[]): RenderedDiff | undefined {
+  let index = pending.findIndex((change) => change.toolCallId === toolCall.id);
+
+  if (index === -1 && result !== undefined) {
+    let filePath: unknown;
+    try {
+      filePath = JSON.parse(toolCall.function.arguments).path;
+    } catch {
+      return undefined;
+    }
+    index = pending.findIndex((change) => change.toolCallId === undefined && change.path === filePath);
+  }
+
+  if (index === -1) {
+    return undefined;
+  }
+
+  const [change] = pending.splice(index, 1);
+  const stats = DiffViewer.computeStats(change.oldContent, change.newContent);
+  const text = change.oldContent
+    ? DiffViewer.generateDiff(change.oldContent, change.newContent)
+    // A new file is shown in full rather than as a line count
+    : DiffViewer.formatUnifiedDiff(
+        (change.newContent ?? '').split('\n').map((content) => ({ type: 'added' as const, content })),
+        0
+      );
+
+  return {
+    path: change.path,
+    outcome: change.outcome,
+    text,
+    stats: `+${stats.additions + stats.modifications} -${stats.deletions + stats.modifications}`
+  };
+}
+
+/**
+ * Short description of an image part, e.g. "image/png, 12 KB"
+ */
+function imageLabel(url: string): string {
+  const match = /^data:([^;,]+);base64,(.*)$/.exec(url);
+  if (!match) {
+    return `Image ${url}`;
+  }
+  const bytes = Math.floor(match[2].length * 3 / 4);
+  return `Image (${match[1]}, ${Math.max(1, Math.round(bytes / 1024))} KB)`;
+}
+
+function diffLabel(diff: RenderedDiff): string {
+  const status = diff.outcome === 'approved' ? '' : `, ${diff.outcome}`;
+  return `${diff.stats}${status}`;
+}
+
+function formatArguments(args: string): string {
+  try {
+    return JSON.stringify(JSON.parse(args), null, 2);
+  } catch {
+    return args;
+  }
+}
+
+function resultSummary(result: string, status: ToolResultStatus = 'ok'): string {
+  const mark = status === 'ok' ? '✓' : status === 'rejected' ? '⊘' : '✗';
+  return `${mark} Result (${lineCount(result)}, ${result.length} characters)`;
+}
+
+function lineCount(text: string): string {
+  const lines = text.split('\n').length;
+  return `${lines} line${lines === 1 ? '' : 's'}`;
+}
+
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  return `${text.substring(0, maxLength)}\n… (${text.length - maxLength} more characters)`;
+}
+
+/**
+ * Fenced code block whose fence cannot be closed by the content
+ */
+function codeBlock(content: string, language: string): string[] {
+  const longestRun = Math.max(0, ...(content.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return [`${fence}${language}`, content, fence];
+}
+
+function markdownDetails(summary: string, content: string[]): string[] {
+  return ['<details>', `<summary>${escapeHtml(summary)}</summary>`, '', ...content, '', '</details>', ''];
+}
+
+function htmlDetails(summary: string, content: string): string {
+  return `<details><summary>${escapeHtml(summary)}</summary>${content}</details>`;
+}
+
+function htmlDiff(diff: string): string {
+  return diff
+    .split('\n')
+    .map((line) => {
+      const escaped = escapeHtml(line);
+      if (line.startsWith('+')) {
+        return `<span class="add">${escaped}</span>`;
+      }
+      if (line.startsWith('-')) {
+        return `<span class="del">${escaped}</span>`;
+      }
+      if (line.startsWith('@@')) {
+        return `<span class="hunk">${escaped}</span>`;
+      }
+      return escaped;
+    })
+    .join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
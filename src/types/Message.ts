@@ -0,0 +1,70 @@
+import OpenAI from 'openai';
+
+/**
+ * Tool call requested by the model (OpenAI wire format)
+ */
+export type ToolCall = OpenAI.Chat.Completions.ChatCompletionMessageToolCall;
+
+/**
+ * Part of a multimodal message (OpenAI wire format)
+ */
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: 'auto' | 'low' | 'high' } };
+
+/**
+ * Plain text, or text and image parts for vision-capable models
+ */
+export type MessageContent = string | ContentPart[];
+
+/**
+ * Message in the conversation
+ * Only user messages carry content parts; the API requires text for the other roles
+ */
+export interface Message {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: MessageContent;
+  name?: string;
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+}
+
+export const MessageContent = {
+  /**
+   * Text of the content, with a placeholder for each image
+   */
+  text(content: MessageContent): string {
+    if (typeof content === 'string') {
+      return content;
+    }
+
+    return content
+      .map((part) => (part.type === 'text' ? part.text : '[image]'))
+      .join('\n');
+  },
+
+  /**
+   * Image parts of the content
+   */
+  images(content: MessageContent): Extract<ContentPart, { type: 'image_url' }>[] {
+    return typeof content === 'string'
+      ? []
+      : content.filter((part): part is Extract<ContentPart, { type: 'image_url' }> => part.type === 'image_url');
+  },
+
+  /**
+   * Image part with the data inlined as a base64 data URL
+   */
+  image(mimeType: string, data: Buffer, detail: 'auto' | 'low' | 'high' = 'auto'): ContentPart {
+    return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data.toString('base64')}`, detail } };
+  },
+
+  /**
+   * Append text, keeping the content a string when it is one
+   */
+  append(content: MessageContent, text: string): MessageContent {
+    return typeof content === 'string'
+      ? `${content}\n\n${text}`
+      : [...content, { type: 'text', text }];
+  }
+};
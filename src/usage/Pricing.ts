@@ -0,0 +1,62 @@
+import { TokenUsage } from '../providers/ModelProvider.js';
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/**
+ * Pricing keyed by model name or model name prefix
+ */
+export type PricingTable = Record<string, ModelPricing>;
+
+/**
+ * Published OpenAI list prices (USD per 1M tokens)
+ * Override or extend with AGENT_PRICING_FILE for other providers and price changes
+ */
+export const DEFAULT_PRICING: PricingTable = {
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+  'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  'gpt-4.1-nano': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'o3-mini': { inputPerMillion: 1.1, outputPerMillion: 4.4 },
+  'o4-mini': { inputPerMillion: 1.1, outputPerMillion: 4.4 }
+};
+
+/**
+ * Cost calculation helpers
+ */
+export const Pricing = {
+  /**
+   * Find pricing for a model: exact match first, then the longest matching prefix
+   * (so dated snapshots like "gpt-4o-2024-08-06" use the "gpt-4o" price)
+   */
+  lookup(model: string, table: PricingTable = DEFAULT_PRICING): ModelPricing | null {
+    if (table[model]) {
+      return table[model];
+    }
+
+    const prefix = Object.keys(table)
+      .filter((key) => model.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+
+    return prefix ? table[prefix] : null;
+  },
+
+  /**
+   * Cost in USD of one usage report, or null if the model has no known price
+   */
+  costOf(model: string, usage: TokenUsage, table: PricingTable = DEFAULT_PRICING): number | null {
+    const pricing = this.lookup(model, table);
+    if (!pricing) {
+      return null;
+    }
+
+    return (usage.promptTokens * pricing.inputPerMillion +
+      usage.completionTokens * pricing.outputPerMillion) / 1_000_000;
+  }
+};
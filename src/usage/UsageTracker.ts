@@ -0,0 +1,164 @@
+import { TokenUsage } from '../providers/ModelProvider.js';
+import { Pricing, PricingTable, DEFAULT_PRICING } from './Pricing.js';
+
+/**
+ * Hard limits for a run
+ */
+export interface UsageLimits {
+  /** Max total cost in USD */
+  maxCost?: number;
+  /** Max total tokens (prompt + completion) */
+  maxTokens?: number;
+}
+
+/**
+ * Accumulated usage of one agent and model
+ */
+export interface UsageEntry {
+  agent: string;
+  model: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  /** True if the model had no pricing, so cost is understated */
+  unpriced: boolean;
+}
+
+/**
+ * Usage totals across all agents
+ */
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+/**
+ * Thrown when a run hits a usage limit
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    message: string,
+    public limit: 'cost' | 'tokens',
+    public totals: UsageTotals
+  ) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Accumulates token usage and cost per agent and enforces limits
+ * One tracker is shared by the main agent and its sub-agents
+ */
+export class UsageTracker {
+  readonly limits: UsageLimits;
+  private entries = new Map<string, UsageEntry>();
+  private pricing: PricingTable;
+
+  constructor(options: { pricing?: PricingTable; limits?: UsageLimits } = {}) {
+    this.pricing = { ...DEFAULT_PRICING, ...options.pricing };
+    this.limits = options.limits ?? {};
+  }
+
+  /**
+   * Record the usage of one completion
+   */
+  record(agent: string, model: string, usage: TokenUsage): void {
+    const key = `${agent}\u0000${model}`;
+    const entry = this.entries.get(key) ?? {
+      agent,
+      model,
+      calls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      cost: 0,
+      unpriced: false
+    };
+
+    const cost = Pricing.costOf(model, usage, this.pricing);
+
+    entry.calls++;
+    entry.promptTokens += usage.promptTokens;
+    entry.completionTokens += usage.completionTokens;
+    entry.totalTokens += usage.totalTokens;
+    entry.cost += cost ?? 0;
+    entry.unpriced = entry.unpriced || cost === null;
+
+    this.entries.set(key, entry);
+  }
+
+  /**
+   * Usage per agent and model, in recording order
+   */
+  breakdown(): UsageEntry[] {
+    return Array.from(this.entries.values()).map((entry) => ({ ...entry }));
+  }
+
+  /**
+   * Usage summed over all agents
+   */
+  totals(): UsageTotals {
+    return this.breakdown().reduce<UsageTotals>(
+      (totals, entry) => ({
+        calls: totals.calls + entry.calls,
+        promptTokens: totals.promptTokens + entry.promptTokens,
+        completionTokens: totals.completionTokens + entry.completionTokens,
+        totalTokens: totals.totalTokens + entry.totalTokens,
+        cost: totals.cost + entry.cost
+      }),
+      { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 }
+    );
+  }
+
+  /**
+   * Throw BudgetExceededError if a limit has been reached
+   */
+  checkLimits(): void {
+    const totals = this.totals();
+
+    if (this.limits.maxTokens !== undefined && totals.totalTokens >= this.limits.maxTokens) {
+      throw new BudgetExceededError(
+        `Token budget exhausted: ${totals.totalTokens} of ${this.limits.maxTokens} tokens used`,
+        'tokens',
+        totals
+      );
+    }
+
+    if (this.limits.maxCost !== undefined && totals.cost >= this.limits.maxCost) {
+      throw new BudgetExceededError(
+        `Cost budget exhausted: $${totals.cost.toFixed(4)} of $${this.limits.maxCost.toFixed(4)} spent`,
+        'cost',
+        totals
+      );
+    }
+  }
+
+  /**
+   * Human-readable usage breakdown
+   */
+  formatReport(): string {
+    const entries = this.breakdown();
+    if (entries.length === 0) {
+      return 'No model usage recorded';
+    }
+
+    const lines = entries.map((entry) =>
+      `  ${entry.agent} (${entry.model}): ${entry.calls} calls, ` +
+      `${entry.promptTokens} prompt + ${entry.completionTokens} completion = ${entry.totalTokens} tokens, ` +
+      (entry.unpriced ? 'cost unknown (no pricing)' : `$${entry.cost.toFixed(4)}`)
+    );
+
+    const totals = this.totals();
+    lines.push(
+      `  Total: ${totals.calls} calls, ${totals.totalTokens} tokens, $${totals.cost.toFixed(4)}`
+    );
+
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Map over items with at most `limit` promises in flight
+ * Results keep the order of the input items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, () => worker());
+  await Promise.all(workers);
+
+  return results;
+}
+
+/**
+ * Wrap async work so that at most `limit` calls run at once
+ * Calls beyond the limit wait, in order, for a running one to finish
+ */
+export function createLimiter(limit: number): <T>(fn: () => Promise<T>) => Promise<T> {
+  let running = 0;
+  const waiting: (() => void)[] = [];
+
+  return async <T>(fn: () => Promise<T>): Promise<T> => {
+    if (running >= limit) {
+      // The finishing call hands its slot over, so `running` stays the same
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    } else {
+      running++;
+    }
+
+    try {
+      return await fn();
+    } finally {
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        running--;
+      }
+    }
+  };
+}